@@ -0,0 +1,35 @@
+// Shared plumbing for modal dialogs. `markup` is the whole dialog element
+// (usually `<form class="modal-dialog ...">`); it closes on Escape, a click on
+// the backdrop, or any [data-action="cancel"] / [data-action="close"] button.
+// Keys are caught in the capture phase so a tool's own shortcuts stay quiet
+// while the dialog is open; `onKeydown` returns true for keys it handled.
+// `onClose` runs however the dialog is closed.
+export function openModal(markup: string, onKeydown?: (e: KeyboardEvent) => boolean, onClose?: () => void) {
+  const overlay = document.createElement('div')
+  overlay.className = 'modal-overlay'
+  overlay.innerHTML = markup
+  document.body.appendChild(overlay)
+
+  const close = () => {
+    document.removeEventListener('keydown', handleKeydown, true)
+    overlay.remove()
+    onClose?.()
+  }
+  const handleKeydown = (e: KeyboardEvent) => {
+    e.stopPropagation()
+    if (onKeydown?.(e)) return
+    if (e.key === 'Escape') close()
+  }
+
+  overlay.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement
+    if (target === overlay || target.closest('[data-action="cancel"], [data-action="close"]')) close()
+  })
+  document.addEventListener('keydown', handleKeydown, true)
+
+  return { overlay, close }
+}
+
+export function renderOptions<T extends string>(options: { id: T; label: string }[], selected: T): string {
+  return options.map(o => `<option value="${o.id}"${o.id === selected ? ' selected' : ''}>${o.label}</option>`).join('')
+}
@@ -0,0 +1,289 @@
+import { crc32 } from './zip'
+
+// Just enough EXIF support to honour the orientation of camera images, show
+// the interesting tags and carry the block over to converted output. Only
+// JPEG, PNG and WebP containers are handled.
+
+export interface ExifData {
+  // The TIFF structure that follows the "Exif\0\0" header
+  tiff: Uint8Array<ArrayBuffer>
+  orientation: number
+  tags: Record<string, string>
+  hasGps: boolean
+}
+
+const TAG_NAMES: Record<number, string> = {
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'Modified',
+  0x9003: 'Taken',
+  0x829a: 'Exposure',
+  0x829d: 'F-number',
+  0x8827: 'ISO',
+  0x920a: 'Focal length',
+  0xa434: 'Lens',
+}
+
+const ORIENTATION_TAG = 0x0112
+const EXIF_IFD_TAG = 0x8769
+const GPS_IFD_TAG = 0x8825
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]
+// Bytes per component of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+export async function readExif(file: Blob): Promise<ExifData | null> {
+  try {
+    const tiff = await findExifBlock(file)
+    return tiff ? parseExif(tiff) : null
+  } catch (err) {
+    console.error('Failed to read EXIF:', err)
+    return null
+  }
+}
+
+// For output whose pixels were already rotated upright
+export function resetOrientation(exif: ExifData): Uint8Array<ArrayBuffer> {
+  const tiff = exif.tiff.slice()
+  const view = toView(tiff)
+  const little = ascii(tiff, 0, 2) === 'II'
+  const ifd = view.getUint32(4, little)
+  const count = view.getUint16(ifd, little)
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) view.setUint16(entry + 8, 1, little)
+  }
+  return tiff
+}
+
+// Images in any other format are returned unchanged
+export async function embedExif(image: Blob, tiff: Uint8Array<ArrayBuffer>): Promise<Blob> {
+  const head = await readBytes(image, 0, 30)
+
+  if (head[0] === 0xff && head[1] === 0xd8) {
+    const length = 2 + EXIF_HEADER.length + tiff.length
+    if (length > 0xffff) return image
+    const segment = new Uint8Array(2 + length)
+    segment.set([0xff, 0xe1, length >> 8, length & 0xff])
+    segment.set(EXIF_HEADER, 4)
+    segment.set(tiff, 10)
+    // Straight after SOI, or after the JFIF header when there is one
+    const at = head[2] === 0xff && head[3] === 0xe0 ? 4 + ((head[4] << 8) | head[5]) : 2
+    return new Blob([image.slice(0, at), segment, image.slice(at)], { type: image.type })
+  }
+
+  if (ascii(head, 1, 3) === 'PNG') {
+    const chunk = new Uint8Array(12 + tiff.length)
+    const view = toView(chunk)
+    view.setUint32(0, tiff.length)
+    chunk.set(new TextEncoder().encode('eXIf'), 4)
+    chunk.set(tiff, 8)
+    view.setUint32(8 + tiff.length, await crc32(new Blob([chunk.subarray(4, 8 + tiff.length)])))
+    // eXIf has to precede the image data, and right after IHDR always does
+    const at = 8 + 12 + 13
+    return new Blob([image.slice(0, at), chunk, image.slice(at)], { type: image.type })
+  }
+
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WEBP') {
+    // Metadata chunks are only allowed in the extended (VP8X) layout
+    let vp8x: Uint8Array<ArrayBuffer>
+    let rest: Blob
+    if (ascii(head, 12, 4) === 'VP8X') {
+      vp8x = head.slice(12, 30)
+      rest = image.slice(30)
+    } else {
+      vp8x = createVp8xChunk(head)
+      rest = image.slice(12)
+    }
+    vp8x[8] |= 0x08
+    const exifChunk = createRiffChunk('EXIF', tiff)
+    const riff = new Uint8Array(12)
+    riff.set(head.subarray(0, 4))
+    toView(riff).setUint32(4, 4 + vp8x.length + rest.size + exifChunk.length, true)
+    riff.set(head.subarray(8, 12), 8)
+    return new Blob([riff, vp8x, rest, exifChunk], { type: image.type })
+  }
+
+  return image
+}
+
+async function findExifBlock(file: Blob): Promise<Uint8Array<ArrayBuffer> | null> {
+  const head = await readBytes(file, 0, 12)
+  if (head[0] === 0xff && head[1] === 0xd8) return findJpegExif(file)
+  if (ascii(head, 1, 3) === 'PNG') return findPngExif(file)
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WEBP') return findWebpExif(file)
+  return null
+}
+
+async function findJpegExif(file: Blob): Promise<Uint8Array<ArrayBuffer> | null> {
+  let offset = 2
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4)
+    if (header[0] !== 0xff) return null
+    // Fill bytes may pad the space between segments
+    if (header[1] === 0xff) {
+      offset++
+      continue
+    }
+    // Metadata segments all come before the compressed image data
+    if (header[1] === 0xda || header[1] === 0xd9) return null
+    const length = (header[2] << 8) | header[3]
+    if (header[1] === 0xe1) {
+      const segment = await readBytes(file, offset + 4, length - 2)
+      if (hasExifHeader(segment)) return segment.slice(EXIF_HEADER.length)
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+async function findPngExif(file: Blob): Promise<Uint8Array<ArrayBuffer> | null> {
+  let offset = 8
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8)
+    const length = toView(header).getUint32(0)
+    const type = ascii(header, 4, 4)
+    if (type === 'eXIf') return readBytes(file, offset + 8, length)
+    if (type === 'IDAT' || type === 'IEND') return null
+    offset += 12 + length
+  }
+  return null
+}
+
+async function findWebpExif(file: Blob): Promise<Uint8Array<ArrayBuffer> | null> {
+  let offset = 12
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8)
+    const size = toView(header).getUint32(4, true)
+    if (ascii(header, 0, 4) === 'EXIF') {
+      const data = await readBytes(file, offset + 8, size)
+      // Some writers keep the JPEG-style header in front of the TIFF data
+      return hasExifHeader(data) ? data.slice(EXIF_HEADER.length) : data
+    }
+    offset += 8 + size + (size & 1)
+  }
+  return null
+}
+
+function parseExif(tiff: Uint8Array<ArrayBuffer>): ExifData | null {
+  if (tiff.length < 8) return null
+  const order = ascii(tiff, 0, 2)
+  const little = order === 'II'
+  const view = toView(tiff)
+  if ((!little && order !== 'MM') || view.getUint16(2, little) !== 42) return null
+
+  const result: ExifData = { tiff, orientation: 1, tags: {}, hasGps: false }
+  const visited = new Set<number>()
+
+  const readIfd = (offset: number, visit: (tag: number, type: number, count: number, at: number) => void) => {
+    if (visited.has(offset) || offset + 2 > tiff.length) return
+    visited.add(offset)
+    const count = view.getUint16(offset, little)
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12
+      if (entry + 12 > tiff.length) return
+      const type = view.getUint16(entry + 2, little)
+      const n = view.getUint32(entry + 4, little)
+      const size = (TYPE_SIZES[type] ?? 1) * n
+      const at = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little)
+      if (at + size <= tiff.length) visit(view.getUint16(entry, little), type, n, at)
+    }
+  }
+
+  const rational = (at: number, signed: boolean) => {
+    const num = signed ? view.getInt32(at, little) : view.getUint32(at, little)
+    const den = signed ? view.getInt32(at + 4, little) : view.getUint32(at + 4, little)
+    return den ? num / den : 0
+  }
+
+  const readValue = (type: number, count: number, at: number): string => {
+    switch (type) {
+      case 2: return ascii(tiff, at, count).replace(/\0+$/, '').trim()
+      case 3: return String(view.getUint16(at, little))
+      case 4: return String(view.getUint32(at, little))
+      case 5:
+      case 10: {
+        const value = rational(at, type === 10)
+        // Exposure times read better as fractions
+        return value > 0 && value < 1 ? `1/${Math.round(1 / value)}` : String(Math.round(value * 100) / 100)
+      }
+      default: return ''
+    }
+  }
+
+  const readGps = (offset: number) => {
+    const refs: Record<number, string> = {}
+    const coords: Record<number, number> = {}
+    readIfd(offset, (tag, type, count, at) => {
+      if (type === 2) refs[tag] = readValue(type, count, at)
+      if (type === 5 && count === 3) {
+        coords[tag] = rational(at, false) + rational(at + 8, false) / 60 + rational(at + 16, false) / 3600
+      }
+    })
+    result.hasGps = true
+    result.tags.GPS = 2 in coords && 4 in coords
+      ? `${coords[2].toFixed(5)}° ${refs[1] ?? ''}, ${coords[4].toFixed(5)}° ${refs[3] ?? ''}`
+      : 'Present'
+  }
+
+  const visit = (tag: number, type: number, count: number, at: number) => {
+    if (tag === ORIENTATION_TAG) {
+      result.orientation = view.getUint16(at, little)
+    } else if (tag === EXIF_IFD_TAG) {
+      readIfd(view.getUint32(at, little), visit)
+    } else if (tag === GPS_IFD_TAG) {
+      readGps(view.getUint32(at, little))
+    } else if (TAG_NAMES[tag]) {
+      const value = readValue(type, count, at)
+      if (value) result.tags[TAG_NAMES[tag]] = value
+    }
+  }
+
+  readIfd(view.getUint32(4, little), visit)
+  if (result.orientation !== 1) result.tags.Orientation = String(result.orientation)
+  return result
+}
+
+function createVp8xChunk(head: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(10)
+  const view = toView(head)
+  let width = 0
+  let height = 0
+  if (ascii(head, 12, 4) === 'VP8L') {
+    const bits = view.getUint32(21, true)
+    width = (bits & 0x3fff) + 1
+    height = ((bits >>> 14) & 0x3fff) + 1
+    if ((bits >>> 28) & 1) data[0] |= 0x10
+  } else {
+    width = view.getUint16(26, true) & 0x3fff
+    height = view.getUint16(28, true) & 0x3fff
+  }
+  data.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4)
+  data.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7)
+  return createRiffChunk('VP8X', data)
+}
+
+function createRiffChunk(fourcc: string, data: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1))
+  chunk.set(new TextEncoder().encode(fourcc))
+  toView(chunk).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+function hasExifHeader(bytes: Uint8Array<ArrayBuffer>): boolean {
+  return EXIF_HEADER.every((byte, i) => bytes[i] === byte)
+}
+
+async function readBytes(blob: Blob, start: number, length: number): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await blob.slice(start, start + length).arrayBuffer())
+}
+
+function toView(bytes: Uint8Array<ArrayBuffer>): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+function ascii(bytes: Uint8Array<ArrayBuffer>, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
@@ -0,0 +1,122 @@
+import { FFFSType, FFmpeg } from '@ffmpeg/ffmpeg'
+import coreURL from '@ffmpeg/core?url'
+import wasmURL from '@ffmpeg/core/wasm?url'
+import coreMtURL from '@ffmpeg/core-mt?url'
+import wasmMtURL from '@ffmpeg/core-mt/wasm?url'
+import workerMtURL from '@ffmpeg/core-mt/worker?url'
+
+// The core is bundled as local assets so nothing is fetched from a CDN. The
+// multi-threaded build needs SharedArrayBuffer, which only exists when the
+// page is cross-origin isolated (see the COOP/COEP headers in vite.config.ts).
+function getCoreConfig() {
+  const toAbsolute = (url: string) => new URL(url, window.location.href).href
+  if (window.crossOriginIsolated) {
+    return {
+      coreURL: toAbsolute(coreMtURL),
+      wasmURL: toAbsolute(wasmMtURL),
+      workerURL: toAbsolute(workerMtURL),
+    }
+  }
+  return {
+    coreURL: toAbsolute(coreURL),
+    wasmURL: toAbsolute(wasmURL),
+  }
+}
+
+export function isMultiThreaded(): boolean {
+  return window.crossOriginIsolated
+}
+
+export async function createFFmpeg(): Promise<FFmpeg> {
+  const ffmpeg = new FFmpeg()
+
+  ffmpeg.on('log', ({ message }) => {
+    console.log('[ffmpeg]', message)
+  })
+
+  await ffmpeg.load(getCoreConfig())
+  return ffmpeg
+}
+
+// Progress listeners belong to the instance, not the exec, so each job
+// attaches its own and removes it again once the exec settles.
+export async function execWithProgress(
+  ffmpeg: FFmpeg,
+  args: string[],
+  onProgress: (ratio: number) => void
+): Promise<number> {
+  const listener = ({ progress }: { progress: number }) => {
+    onProgress(Math.max(0, Math.min(1, progress)))
+  }
+  ffmpeg.on('progress', listener)
+  try {
+    return await ffmpeg.exec(args)
+  } finally {
+    ffmpeg.off('progress', listener)
+  }
+}
+
+let mountCount = 0
+
+// Exposes a File to FFmpeg through WORKERFS, which reads it lazily instead of
+// copying the whole thing into the wasm heap.
+export async function mountInputFile(ffmpeg: FFmpeg, file: File) {
+  const mountPoint = `/mnt-${++mountCount}`
+  await ffmpeg.createDir(mountPoint)
+  await ffmpeg.mount(FFFSType.WORKERFS, { files: [file] }, mountPoint)
+  return {
+    path: `${mountPoint}/${file.name}`,
+    unmount: async () => {
+      await ffmpeg.unmount(mountPoint)
+      await ffmpeg.deleteDir(mountPoint)
+    },
+  }
+}
+
+// Reads an output file into a Blob and deletes it. The data is copied since
+// readFile's view may sit on a SharedArrayBuffer, which Blob won't take.
+export async function readOutputBlob(ffmpeg: FFmpeg, path: string, type: string): Promise<Blob> {
+  const data = await ffmpeg.readFile(path)
+  await ffmpeg.deleteFile(path)
+  return new Blob([data instanceof Uint8Array ? new Uint8Array(data) : data], { type })
+}
+
+// Removes a job's output, a single file or a directory of files. Whatever a
+// failed exec left behind is cleaned up, and a missing path is ignored.
+export async function removeOutput(ffmpeg: FFmpeg, path: string) {
+  try {
+    const entries = await ffmpeg.listDir(path)
+    for (const entry of entries) {
+      if (!entry.isDir) await ffmpeg.deleteFile(`${path}/${entry.name}`)
+    }
+    await ffmpeg.deleteDir(path)
+  } catch {
+    await ffmpeg.deleteFile(path).catch(() => {})
+  }
+}
+
+// Keeps loaded instances around between jobs. An instance that had to be
+// terminated (to cancel a running exec) is dropped and replaced on demand.
+export function createFFmpegPool() {
+  const idle: FFmpeg[] = []
+
+  return {
+    get idleCount() {
+      return idle.length
+    },
+    async acquire(): Promise<FFmpeg> {
+      return idle.pop() ?? await createFFmpeg()
+    },
+    release(ffmpeg: FFmpeg) {
+      if (ffmpeg.loaded) idle.push(ffmpeg)
+    },
+    trim(max: number) {
+      idle.splice(max).forEach(f => f.terminate())
+    },
+    clear() {
+      idle.splice(0).forEach(f => f.terminate())
+    },
+  }
+}
+
+export type FFmpegPool = ReturnType<typeof createFFmpegPool>
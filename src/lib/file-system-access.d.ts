@@ -0,0 +1,16 @@
+// File System Access API pieces that lib.dom does not ship yet (Chromium only).
+
+interface SaveFilePickerOptions {
+  suggestedName?: string
+  types?: { description?: string; accept: Record<string, string[]> }[]
+}
+
+interface DirectoryPickerOptions {
+  id?: string
+  mode?: 'read' | 'readwrite'
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>
+  showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>
+}
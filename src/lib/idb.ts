@@ -0,0 +1,52 @@
+// Small promise wrapper around IndexedDB for per-tool key/value data that is
+// too large or too structured for localStorage. Adding a store means adding it
+// to STORES and bumping DB_VERSION.
+
+const DB_NAME = 'custom-toolings'
+const DB_VERSION = 1
+const STORES = ['markers'] as const
+
+export type StoreName = typeof STORES[number]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      for (const name of STORES) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name)
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return run<T | undefined>(store, 'readonly', s => s.get(key))
+}
+
+export async function idbSet(store: StoreName, key: string, value: unknown): Promise<void> {
+  await run(store, 'readwrite', s => s.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await run(store, 'readwrite', s => s.delete(key))
+}
@@ -0,0 +1,34 @@
+const probes = new Map<string, Promise<boolean>>()
+
+// canvas.toBlob silently falls back to PNG for types the browser can't encode
+// (AVIF, in most current browsers), so each type is tried once on a 1×1 canvas.
+export function canEncodeImage(type: string): Promise<boolean> {
+  let probe = probes.get(type)
+  if (!probe) {
+    probe = new Promise<boolean>((resolve) => {
+      const canvas = document.createElement('canvas')
+      canvas.width = 1
+      canvas.height = 1
+      canvas.toBlob(blob => resolve(blob?.type === type), type)
+    })
+    probes.set(type, probe)
+  }
+  return probe
+}
+
+// Re-encodes an image with the browser's own encoder. `quality` is 0–100.
+export async function encodeCanvasImage(image: Blob, type: string, quality: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(image)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob?.type === type ? resolve(blob) : reject(new Error(`This browser can't encode ${type}`))),
+      type,
+      quality / 100
+    )
+  })
+}
@@ -0,0 +1,134 @@
+// Writes results straight into a user-picked folder via the File System
+// Access API. The handle is shared by every tool for the rest of the session.
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename'
+
+const POLICY_STORAGE_KEY = 'output-dir:conflict-policy'
+
+const CONFLICT_POLICIES: { id: ConflictPolicy; label: string }[] = [
+  { id: 'rename', label: 'Rename' },
+  { id: 'overwrite', label: 'Overwrite' },
+  { id: 'skip', label: 'Skip' },
+]
+
+let outputDir: FileSystemDirectoryHandle | null = null
+let conflictPolicy: ConflictPolicy = loadConflictPolicy()
+
+function loadConflictPolicy(): ConflictPolicy {
+  const stored = localStorage.getItem(POLICY_STORAGE_KEY)
+  return CONFLICT_POLICIES.some(p => p.id === stored) ? stored as ConflictPolicy : 'rename'
+}
+
+export function isOutputDirSupported(): boolean {
+  return typeof window.showDirectoryPicker === 'function'
+}
+
+export function getOutputDir(): FileSystemDirectoryHandle | null {
+  return outputDir
+}
+
+export function renderOutputDirControls(): string {
+  if (!isOutputDirSupported()) return ''
+  return `
+    <div class="output-dir-controls">
+      <button id="output-dir-btn" class="btn btn-small"></button>
+      <button id="output-dir-clear" class="btn-remove" title="Use browser downloads">&times;</button>
+      <label class="setting-field">
+        <span>If file exists</span>
+        <select id="conflict-policy">
+          ${CONFLICT_POLICIES.map(p => `<option value="${p.id}"${p.id === conflictPolicy ? ' selected' : ''}>${p.label}</option>`).join('')}
+        </select>
+      </label>
+    </div>
+  `
+}
+
+export function setupOutputDirControls(onChange?: () => void) {
+  const dirBtn = document.getElementById('output-dir-btn')
+  const clearBtn = document.getElementById('output-dir-clear')
+  const policySelect = document.getElementById('conflict-policy') as HTMLSelectElement | null
+  if (!dirBtn || !clearBtn || !policySelect) return
+
+  const render = () => {
+    dirBtn.textContent = outputDir ? `Output: ${outputDir.name}/` : 'Choose output folder'
+    clearBtn.classList.toggle('hidden', !outputDir)
+    policySelect.closest('.setting-field')?.classList.toggle('hidden', !outputDir)
+  }
+
+  dirBtn.addEventListener('click', async () => {
+    try {
+      outputDir = await window.showDirectoryPicker!({ id: 'custom-tools-output', mode: 'readwrite' })
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Directory picker error:', err)
+      }
+      return
+    }
+    render()
+    onChange?.()
+  })
+
+  clearBtn.addEventListener('click', () => {
+    outputDir = null
+    render()
+    onChange?.()
+  })
+
+  policySelect.addEventListener('change', () => {
+    conflictPolicy = policySelect.value as ConflictPolicy
+    localStorage.setItem(POLICY_STORAGE_KEY, conflictPolicy)
+  })
+
+  render()
+}
+
+async function fileExists(dir: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await dir.getFileHandle(name)
+    return true
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'NotFoundError') return false
+    throw err
+  }
+}
+
+async function resolveName(dir: FileSystemDirectoryHandle, name: string): Promise<string | null> {
+  if (!(await fileExists(dir, name))) return name
+  if (conflictPolicy === 'skip') return null
+  if (conflictPolicy === 'overwrite') return name
+
+  const dot = name.lastIndexOf('.')
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const ext = dot > 0 ? name.slice(dot) : ''
+  let n = 2
+  while (await fileExists(dir, `${base} (${n})${ext}`)) n++
+  return `${base} (${n})${ext}`
+}
+
+// Returns the path actually written, or null when the conflict policy skipped it.
+export async function writeToOutputDir(path: string, data: Blob): Promise<string | null> {
+  if (!outputDir) throw new Error('No output folder selected')
+
+  const segments = path.split('/').filter(Boolean)
+  const fileName = segments.pop()
+  if (!fileName) throw new Error(`Invalid output path: ${path}`)
+
+  let dir = outputDir
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create: true })
+  }
+
+  const name = await resolveName(dir, fileName)
+  if (!name) return null
+
+  const handle = await dir.getFileHandle(name, { create: true })
+  const writable = await handle.createWritable()
+  try {
+    await writable.write(data)
+    await writable.close()
+  } catch (err) {
+    await writable.abort()
+    throw err
+  }
+  return [...segments, name].join('/')
+}
@@ -0,0 +1,62 @@
+// Minimal PDF writer for image-only documents. Every page is one JPEG drawn
+// edge to edge; JPEG data is embedded as-is through the DCTDecode filter, so
+// nothing needs re-encoding.
+
+export interface PdfPage {
+  jpeg: Blob
+  // Pixel size of the JPEG
+  width: number
+  height: number
+}
+
+// Pages are laid out at 96 dpi, i.e. 0.75pt per pixel
+const POINTS_PER_PIXEL = 0.75
+
+export async function createPdf(pages: PdfPage[]): Promise<Blob> {
+  const parts: BlobPart[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (part: string | Uint8Array<ArrayBuffer>) => {
+    parts.push(part)
+    // Everything written as a string is ASCII, so characters equal bytes
+    length += typeof part === 'string' ? part.length : part.byteLength
+  }
+  const object = (id: number, body: string) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n${body}\nendobj\n`)
+  }
+
+  // Objects: 1 catalog, 2 page tree, then page, content and image per page
+  const pageIds = pages.map((_, i) => 3 + (i * 3))
+  write('%PDF-1.4\n')
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i]
+    const id = pageIds[i]
+    const width = page.width * POINTS_PER_PIXEL
+    const height = page.height * POINTS_PER_PIXEL
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`
+    const jpeg = new Uint8Array(await page.jpeg.arrayBuffer())
+
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`)
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+
+    offsets[id + 2] = length
+    write(`${id + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.byteLength} >>\nstream\n`)
+    write(jpeg)
+    write('\nendstream\nendobj\n')
+  }
+
+  const xrefOffset = length
+  const count = offsets.length
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`)
+  for (let id = 1; id < count; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return new Blob(parts, { type: 'application/pdf' })
+}
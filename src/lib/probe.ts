@@ -0,0 +1,185 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import type { ExifData } from './exif'
+import { mountInputFile } from './ffmpeg'
+import { escapeHtml, formatBytes, formatDuration } from './format'
+
+export interface MediaStreamInfo {
+  index: number
+  type: string
+  codec: string
+  profile?: string
+  width?: number
+  height?: number
+  pixelFormat?: string
+  color?: string
+  frameRate?: number
+  bitrate?: number
+  sampleRate?: number
+  channels?: number
+  channelLayout?: string
+  rotation?: number
+  language?: string
+}
+
+export interface MediaInfo {
+  format: string
+  size: number
+  duration?: number
+  bitrate?: number
+  streams: MediaStreamInfo[]
+  tags: Record<string, string>
+}
+
+// The subset of ffprobe's JSON output that is read below
+interface ProbeOutput {
+  format?: {
+    format_long_name?: string
+    format_name?: string
+    duration?: string
+    bit_rate?: string
+    tags?: Record<string, string>
+  }
+  streams?: {
+    index: number
+    codec_type?: string
+    codec_name?: string
+    codec_long_name?: string
+    profile?: string
+    width?: number
+    height?: number
+    pix_fmt?: string
+    color_space?: string
+    color_transfer?: string
+    color_primaries?: string
+    color_range?: string
+    avg_frame_rate?: string
+    bit_rate?: string
+    sample_rate?: string
+    channels?: number
+    channel_layout?: string
+    tags?: Record<string, string>
+    side_data_list?: { rotation?: number }[]
+  }[]
+}
+
+const PROBE_OUTPUT = 'probe.json'
+
+export async function probeMedia(ffmpeg: FFmpeg, file: File): Promise<MediaInfo> {
+  const input = await mountInputFile(ffmpeg, file)
+  try {
+    return await probeInput(ffmpeg, input.path, file.size)
+  } finally {
+    await input.unmount()
+  }
+}
+
+// For a file that is already in FFmpeg's filesystem
+export async function probeInput(ffmpeg: FFmpeg, path: string, size: number): Promise<MediaInfo> {
+  const exitCode = await ffmpeg.ffprobe([
+    '-v', 'error',
+    '-show_format',
+    '-show_streams',
+    '-of', 'json',
+    path,
+    '-o', PROBE_OUTPUT,
+  ])
+  if (exitCode !== 0) throw new Error(`FFprobe exited with code ${exitCode}`)
+  const text = await ffmpeg.readFile(PROBE_OUTPUT, 'utf8') as string
+  await ffmpeg.deleteFile(PROBE_OUTPUT)
+  return parseProbeOutput(JSON.parse(text) as ProbeOutput, size)
+}
+
+function parseProbeOutput(output: ProbeOutput, size: number): MediaInfo {
+  const number = (value?: string) => {
+    const parsed = Number(value)
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+  }
+  const format = output.format ?? {}
+
+  return {
+    format: format.format_long_name ?? format.format_name ?? 'Unknown',
+    size,
+    duration: number(format.duration),
+    bitrate: number(format.bit_rate),
+    tags: format.tags ?? {},
+    streams: (output.streams ?? []).map(stream => {
+      const [num, den] = (stream.avg_frame_rate ?? '').split('/').map(Number)
+      // Unset color properties come through as "unknown"
+      const color = [stream.color_space, stream.color_primaries, stream.color_transfer]
+        .filter(value => value && value !== 'unknown')
+        .join(' / ')
+      const rotation = stream.side_data_list?.find(data => data.rotation !== undefined)?.rotation
+        ?? number(stream.tags?.rotate)
+      return {
+        index: stream.index,
+        type: stream.codec_type ?? 'data',
+        codec: stream.codec_long_name ?? stream.codec_name ?? 'Unknown',
+        profile: stream.profile,
+        width: stream.width,
+        height: stream.height,
+        pixelFormat: stream.pix_fmt,
+        color: color ? `${color}${stream.color_range ? ` (${stream.color_range})` : ''}` : undefined,
+        frameRate: num > 0 && den > 0 ? num / den : undefined,
+        bitrate: number(stream.bit_rate),
+        sampleRate: number(stream.sample_rate),
+        channels: stream.channels,
+        channelLayout: stream.channel_layout,
+        rotation: rotation || undefined,
+        language: stream.tags?.language,
+      }
+    }),
+  }
+}
+
+function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1e6 ? `${(bitsPerSecond / 1e6).toFixed(1)} Mb/s` : `${Math.round(bitsPerSecond / 1000)} kb/s`
+}
+
+function renderSection(title: string, rows: [string, string | number | undefined][]): string {
+  const present = rows.filter(([, value]) => value !== undefined && value !== '')
+  if (present.length === 0) return ''
+  return `
+    <section>
+      <h4>${escapeHtml(title)}</h4>
+      <dl>${present.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(String(value))}</dd>`).join('')}</dl>
+    </section>
+  `
+}
+
+// Either half may be missing: EXIF only exists for some images, and probing
+// needs FFmpeg.
+export function renderMediaInfo(info: MediaInfo | null, exif: ExifData | null): string {
+  const sections: string[] = []
+
+  if (info) {
+    sections.push(renderSection('Container', [
+      ['Format', info.format],
+      ['Size', formatBytes(info.size)],
+      ['Duration', info.duration !== undefined ? formatDuration(info.duration) : undefined],
+      ['Bitrate', info.bitrate !== undefined ? formatBitrate(info.bitrate) : undefined],
+      ...Object.entries(info.tags).map(([key, value]): [string, string] => [key, value]),
+    ]))
+
+    for (const stream of info.streams) {
+      const title = `${stream.type[0].toUpperCase()}${stream.type.slice(1)} #${stream.index}`
+      sections.push(renderSection(title, [
+        ['Codec', stream.profile ? `${stream.codec} (${stream.profile})` : stream.codec],
+        ['Resolution', stream.width && stream.height ? `${stream.width}×${stream.height}` : undefined],
+        ['Frame rate', stream.frameRate && stream.type === 'video' ? `${Math.round(stream.frameRate * 1000) / 1000} fps` : undefined],
+        ['Pixel format', stream.pixelFormat],
+        ['Color', stream.color],
+        ['Rotation', stream.rotation !== undefined ? `${stream.rotation}°` : undefined],
+        ['Sample rate', stream.sampleRate !== undefined ? `${stream.sampleRate} Hz` : undefined],
+        ['Channels', stream.channelLayout ?? stream.channels],
+        ['Bitrate', stream.bitrate !== undefined ? formatBitrate(stream.bitrate) : undefined],
+        ['Language', stream.language],
+      ]))
+    }
+  }
+
+  if (exif) {
+    sections.push(renderSection('EXIF', Object.entries(exif.tags)))
+  }
+
+  return `<div class="media-info">${sections.join('') || '<p class="hint">No metadata found</p>'}</div>`
+}
@@ -0,0 +1,18 @@
+// Settings objects kept in localStorage. Values saved before a field existed
+// pick up its default, and anything unreadable falls back to the defaults.
+export function loadSettings<T extends object>(key: string, defaults: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? { ...defaults, ...JSON.parse(raw) } : { ...defaults }
+  } catch {
+    return { ...defaults }
+  }
+}
+
+export function saveSettings(key: string, settings: object) {
+  try {
+    localStorage.setItem(key, JSON.stringify(settings))
+  } catch (err) {
+    console.error('Failed to save settings:', err)
+  }
+}
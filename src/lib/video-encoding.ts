@@ -0,0 +1,104 @@
+// Video encoder settings shared by the media optimizer and clip exports.
+// Everything here is limited to encoders in the bundled FFmpeg core.
+
+export type VideoFormat = 'webm' | 'mp4' | 'gif' | 'webp'
+
+export interface OutputFormat<T extends string = string> {
+  id: T
+  label: string
+  ext: string
+  mime: string
+  // Whether padding can be left transparent
+  alpha?: boolean
+}
+
+export interface VideoEncodeSettings {
+  quality: number
+  maxResolution: number
+  frameRate: number
+  audio: boolean
+  // kbps, 0 = quality-based
+  videoBitrate: number
+  audioBitrate: number
+}
+
+export const VIDEO_FORMATS: OutputFormat<VideoFormat>[] = [
+  { id: 'webm', label: 'WebM (VP9/Opus)', ext: '.webm', mime: 'video/webm' },
+  { id: 'mp4', label: 'MP4 (H.264/AAC)', ext: '.mp4', mime: 'video/mp4' },
+  { id: 'gif', label: 'GIF', ext: '.gif', mime: 'image/gif' },
+  { id: 'webp', label: 'Animated WebP', ext: '.webp', mime: 'image/webp' },
+]
+
+// GIF and animated WebP at source frame rate balloon quickly, so they get a sane default.
+const ANIMATION_DEFAULT_FPS = 15
+
+export function getVideoFormat(id: string): OutputFormat<VideoFormat> {
+  return VIDEO_FORMATS.find(f => f.id === id) ?? VIDEO_FORMATS[0]
+}
+
+// Maps the 0–100 quality scale onto libvpx CRF (63 = worst); 80 lands on CRF 30.
+export function qualityToCrf(quality: number): number {
+  return Math.round(63 - (quality / 100) * 41)
+}
+
+function qualityToX264Crf(quality: number): number {
+  return Math.round(51 - (quality / 100) * 33)
+}
+
+export function maxResolutionFilter(max: number): string {
+  return `scale='min(iw,${max})':'min(ih,${max})':force_original_aspect_ratio=decrease:force_divisible_by=2`
+}
+
+// `scale` replaces the max resolution filter when given
+export function videoFilters(format: VideoFormat, settings: VideoEncodeSettings, scale?: string[]): string[] {
+  const filters: string[] = []
+  const isAnimation = format === 'gif' || format === 'webp'
+  const fps = settings.frameRate > 0 ? settings.frameRate : isAnimation ? ANIMATION_DEFAULT_FPS : 0
+  if (fps > 0) filters.push(`fps=${fps}`)
+  if (scale) {
+    filters.push(...scale)
+  } else if (settings.maxResolution > 0) {
+    filters.push(maxResolutionFilter(settings.maxResolution))
+  }
+  if (format === 'gif') {
+    filters.push('split[a][b];[a]palettegen[p];[b][p]paletteuse')
+  }
+  return filters
+}
+
+export function videoCodecArgs(format: VideoFormat, settings: VideoEncodeSettings): string[] {
+  const audioArgs = (codec: string) => settings.audio
+    ? ['-c:a', codec, '-b:a', `${settings.audioBitrate}k`]
+    : ['-an']
+
+  switch (format) {
+    case 'webm':
+      return [
+        '-c:v', 'libvpx-vp9',
+        ...(settings.videoBitrate > 0
+          ? ['-b:v', `${settings.videoBitrate}k`]
+          : ['-crf', String(qualityToCrf(settings.quality)), '-b:v', '0']),
+        ...audioArgs('libopus'),
+      ]
+    case 'mp4':
+      return [
+        '-c:v', 'libx264',
+        '-preset', 'medium',
+        '-pix_fmt', 'yuv420p',
+        ...(settings.videoBitrate > 0
+          ? ['-b:v', `${settings.videoBitrate}k`]
+          : ['-crf', String(qualityToX264Crf(settings.quality))]),
+        ...audioArgs('aac'),
+        '-movflags', '+faststart',
+      ]
+    case 'webp':
+      return ['-c:v', 'libwebp', '-q:v', String(settings.quality), '-loop', '0', '-an']
+    case 'gif':
+      return ['-loop', '0', '-an']
+  }
+}
+
+export function buildVideoArgs(input: string, output: string, format: VideoFormat, settings: VideoEncodeSettings): string[] {
+  const filters = videoFilters(format, settings)
+  return ['-i', input, ...(filters.length ? ['-vf', filters.join(',')] : []), ...videoCodecArgs(format, settings), output]
+}
@@ -0,0 +1,250 @@
+// Minimal ZIP writer. Entries are stored uncompressed (media is already
+// compressed) and file bodies are handed to the sink as Blobs, so nothing
+// larger than a header is ever copied into memory.
+
+export interface ZipEntry {
+  path: string
+  data: Blob
+  lastModified?: number
+}
+
+interface ZipSink {
+  write(data: Uint8Array<ArrayBuffer> | Blob): Promise<void>
+  close(): Promise<void>
+  // Discards whatever was written so far
+  abort(): Promise<void>
+}
+
+interface CentralRecord {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+const MAX_ZIP32 = 0xffffffff
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+export async function crc32(blob: Blob): Promise<number> {
+  const table = getCrcTable()
+  const reader = blob.stream().getReader()
+  let crc = 0xffffffff
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    for (let i = 0; i < value.length; i++) {
+      crc = table[(crc ^ value[i]) & 0xff] ^ (crc >>> 8)
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp)
+  const year = Math.max(1980, d.getFullYear())
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/{2,}/g, '/')
+}
+
+export function createZipWriter(sink: ZipSink) {
+  const encoder = new TextEncoder()
+  const records: CentralRecord[] = []
+  const usedPaths = new Set<string>()
+  let offset = 0
+
+  async function add(entry: ZipEntry) {
+    const path = uniquePath(normalizePath(entry.path))
+    const name = encoder.encode(path)
+    const size = entry.data.size
+    if (offset + size > MAX_ZIP32) {
+      throw new Error('Archive exceeds 4 GB, which this ZIP writer does not support')
+    }
+
+    const crc = await crc32(entry.data)
+    const { time, date } = toDosDateTime(entry.lastModified ?? Date.now())
+
+    const header = new Uint8Array(30 + name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    view.setUint16(4, 20, true)
+    view.setUint16(6, 0x0800, true) // UTF-8 names
+    view.setUint16(8, 0, true) // stored
+    view.setUint16(10, time, true)
+    view.setUint16(12, date, true)
+    view.setUint32(14, crc, true)
+    view.setUint32(18, size, true)
+    view.setUint32(22, size, true)
+    view.setUint16(26, name.length, true)
+    view.setUint16(28, 0, true)
+    header.set(name, 30)
+
+    records.push({ name, crc, size, offset, time, date })
+    await sink.write(header)
+    await sink.write(entry.data)
+    offset += header.length + size
+  }
+
+  function uniquePath(path: string): string {
+    if (!usedPaths.has(path)) {
+      usedPaths.add(path)
+      return path
+    }
+    const dot = path.lastIndexOf('.')
+    const base = dot > path.lastIndexOf('/') ? path.slice(0, dot) : path
+    const ext = dot > path.lastIndexOf('/') ? path.slice(dot) : ''
+    let n = 2
+    while (usedPaths.has(`${base} (${n})${ext}`)) n++
+    const unique = `${base} (${n})${ext}`
+    usedPaths.add(unique)
+    return unique
+  }
+
+  async function close() {
+    const centralStart = offset
+    for (const record of records) {
+      const entry = new Uint8Array(46 + record.name.length)
+      const view = new DataView(entry.buffer)
+      view.setUint32(0, 0x02014b50, true)
+      view.setUint16(4, 20, true)
+      view.setUint16(6, 20, true)
+      view.setUint16(8, 0x0800, true)
+      view.setUint16(10, 0, true)
+      view.setUint16(12, record.time, true)
+      view.setUint16(14, record.date, true)
+      view.setUint32(16, record.crc, true)
+      view.setUint32(20, record.size, true)
+      view.setUint32(24, record.size, true)
+      view.setUint16(28, record.name.length, true)
+      view.setUint32(42, record.offset, true)
+      entry.set(record.name, 46)
+      await sink.write(entry)
+      offset += entry.length
+    }
+
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, 0x06054b50, true)
+    view.setUint16(8, records.length, true)
+    view.setUint16(10, records.length, true)
+    view.setUint32(12, offset - centralStart, true)
+    view.setUint32(16, centralStart, true)
+    await sink.write(end)
+    await sink.close()
+  }
+
+  return { add, close }
+}
+
+async function createSink(filename: string): Promise<{ sink: ZipSink; finish: () => void } | null> {
+  if (window.showSaveFilePicker) {
+    let handle: FileSystemFileHandle
+    try {
+      handle = await window.showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+      })
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return null
+      throw err
+    }
+    const writable = await handle.createWritable()
+    return {
+      sink: {
+        write: (data) => writable.write(data),
+        close: () => writable.close(),
+        abort: () => writable.abort(),
+      },
+      finish: () => {},
+    }
+  }
+
+  // Without a file picker, parts are collected as Blob references and the
+  // browser assembles the archive lazily when the download starts.
+  const parts: BlobPart[] = []
+  let archive: Blob | null = null
+  return {
+    sink: {
+      write: async (data) => { parts.push(data) },
+      close: async () => { archive = new Blob(parts, { type: 'application/zip' }) },
+      abort: async () => {
+        parts.length = 0
+        archive = null
+      },
+    },
+    finish: () => {
+      if (!archive) return
+      const a = document.createElement('a')
+      a.href = URL.createObjectURL(archive)
+      a.download = filename
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(a.href), 0)
+    },
+  }
+}
+
+// Opens the destination up front so the save picker still has the user
+// activation of the click that started the export. Callers that give up
+// part-way must call abort(), or the picked file stays locked and truncated.
+export async function openZipDownload(filename: string) {
+  const target = await createSink(filename)
+  if (!target) return null
+
+  const writer = createZipWriter(target.sink)
+  return {
+    add: writer.add,
+    close: async () => {
+      await writer.close()
+      target.finish()
+    },
+    abort: async () => {
+      try {
+        await target.sink.abort()
+      } catch (err) {
+        console.error('Failed to abort ZIP:', err)
+      }
+    },
+  }
+}
+
+export async function downloadZip(
+  filename: string,
+  entries: ZipEntry[],
+  onProgress?: (done: number, total: number) => void
+): Promise<boolean> {
+  const zip = await openZipDownload(filename)
+  if (!zip) return false
+
+  try {
+    for (let i = 0; i < entries.length; i++) {
+      await zip.add(entries[i])
+      onProgress?.(i + 1, entries.length)
+    }
+    await zip.close()
+  } catch (err) {
+    await zip.abort()
+    throw err
+  }
+  return true
+}
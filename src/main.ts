@@ -2,13 +2,22 @@ import './style.css'
 import { framesExtractor } from './tools/frames-extractor'
 import { mediaOptimizer } from './tools/media-optimizer'
 
-const tools = [
-  { path: '/frames-extractor', name: 'Frames Extractor', description: 'Extract frames from video at marked timestamps', render: framesExtractor },
-  { path: '/media-optimizer', name: 'Media Optimizer', description: 'Convert images to WebP, videos to WebM', render: mediaOptimizer },
+// A tool renders itself into the container on mount. Anything that outlives
+// that DOM (document listeners, object URLs, FFmpeg workers, pending exports)
+// has to be released again in unmount, which runs before the next route.
+export interface Tool {
+  mount(container: HTMLElement): void
+  unmount(): void
+}
+
+const tools: { path: string; name: string; description: string; tool: Tool }[] = [
+  { path: '/frames-extractor', name: 'Frames Extractor', description: 'Extract frames from video at marked timestamps', tool: framesExtractor },
+  { path: '/media-optimizer', name: 'Media Optimizer', description: 'Convert images and videos to web-friendly formats', tool: mediaOptimizer },
 ]
 
-function renderHome() {
-  const app = document.querySelector<HTMLDivElement>('#app')!
+let activeTool: Tool | null = null
+
+function renderHome(app: HTMLElement) {
   app.innerHTML = `
     <div class="home">
       <h1>Custom Tools</h1>
@@ -25,13 +34,17 @@ function renderHome() {
 }
 
 function router() {
+  const app = document.querySelector<HTMLDivElement>('#app')!
   const path = window.location.pathname
-  const tool = tools.find(t => t.path === path)
+  const entry = tools.find(t => t.path === path)
+
+  activeTool?.unmount()
+  activeTool = entry?.tool ?? null
 
-  if (tool) {
-    tool.render()
+  if (activeTool) {
+    activeTool.mount(app)
   } else {
-    renderHome()
+    renderHome(app)
   }
 }
 
@@ -0,0 +1,190 @@
+import { openModal, renderOptions } from '../../lib/dialog'
+import { loadSettings, saveSettings } from '../../lib/storage'
+import { buildVideoArgs, getVideoFormat, type VideoFormat } from '../../lib/video-encoding'
+
+export type ClipKind = 'copy' | 'mp4' | 'webm' | 'gif' | 'webp' | 'frames'
+export type SequenceFormat = 'png' | 'jpeg' | 'webp'
+
+export interface ClipRange {
+  id: string
+  start: number
+  // Exclusive: the first frame after the out point
+  end: number
+}
+
+export interface ClipSettings {
+  kind: ClipKind
+  fps: number
+  maxResolution: number
+  quality: number
+  sequenceFormat: SequenceFormat
+}
+
+export interface ClipOutput {
+  args: string[]
+  // A single file, or a directory holding the image sequence
+  output: string
+  ext: string
+  mime: string
+}
+
+const STORAGE_KEY = 'frames-extractor:clip'
+
+export const CLIP_KINDS: { id: ClipKind; label: string }[] = [
+  { id: 'copy', label: 'Clip, stream copy (fast, cuts on keyframes)' },
+  { id: 'mp4', label: 'Clip, re-encode MP4 (frame-accurate)' },
+  { id: 'webm', label: 'Clip, re-encode WebM (frame-accurate)' },
+  { id: 'gif', label: 'Animated GIF' },
+  { id: 'webp', label: 'Animated WebP' },
+  { id: 'frames', label: 'Image sequence' },
+]
+
+const SEQUENCE_FORMATS: { id: SequenceFormat; label: string; ext: string; mime: string; codec: string[] }[] = [
+  { id: 'png', label: 'PNG', ext: '.png', mime: 'image/png', codec: ['-c:v', 'png'] },
+  { id: 'jpeg', label: 'JPEG', ext: '.jpg', mime: 'image/jpeg', codec: ['-c:v', 'mjpeg', '-q:v', '2'] },
+  { id: 'webp', label: 'WebP', ext: '.webp', mime: 'image/webp', codec: ['-c:v', 'libwebp'] },
+]
+
+export const DEFAULT_CLIP_SETTINGS: ClipSettings = {
+  kind: 'mp4',
+  fps: 0,
+  maxResolution: 0,
+  quality: 80,
+  sequenceFormat: 'png',
+}
+
+export function loadClipSettings(): ClipSettings {
+  return loadSettings(STORAGE_KEY, DEFAULT_CLIP_SETTINGS)
+}
+
+export function saveClipSettings(settings: ClipSettings) {
+  saveSettings(STORAGE_KEY, settings)
+}
+
+function getExtension(name: string): string {
+  const match = name.match(/\.[^.]+$/)
+  return match ? match[0].toLowerCase() : '.mp4'
+}
+
+// Input seeking (-ss before -i) is fast, and FFmpeg still decodes from the
+// preceding keyframe when re-encoding, so the cut is frame-accurate. With
+// stream copy the clip can only start on a keyframe.
+export function buildClipArgs(input: string, source: File, range: ClipRange, settings: ClipSettings): ClipOutput {
+  const trim = ['-ss', range.start.toFixed(6), '-t', (range.end - range.start).toFixed(6)]
+
+  if (settings.kind === 'copy') {
+    const ext = getExtension(source.name)
+    const output = `/clip${ext}`
+    return {
+      args: [...trim, '-i', input, '-map', '0:v?', '-map', '0:a?', '-c', 'copy', '-avoid_negative_ts', 'make_zero', output],
+      output,
+      ext,
+      mime: source.type || 'application/octet-stream',
+    }
+  }
+
+  if (settings.kind === 'frames') {
+    const format = SEQUENCE_FORMATS.find(f => f.id === settings.sequenceFormat) ?? SEQUENCE_FORMATS[0]
+    const filters = [
+      ...(settings.fps > 0 ? [`fps=${settings.fps}`] : []),
+      ...(settings.maxResolution > 0
+        ? [`scale='min(iw,${settings.maxResolution})':'min(ih,${settings.maxResolution})':force_original_aspect_ratio=decrease`]
+        : []),
+    ]
+    return {
+      args: [...trim, '-i', input, ...(filters.length ? ['-vf', filters.join(',')] : []), ...format.codec, `/clip-frames/frame_%05d${format.ext}`],
+      output: '/clip-frames',
+      ext: format.ext,
+      mime: format.mime,
+    }
+  }
+
+  // Re-encodes and animations use the same encoder settings as the media optimizer
+  const format = getVideoFormat(settings.kind)
+  const output = `/clip${format.ext}`
+  const encode = {
+    quality: settings.quality,
+    maxResolution: settings.maxResolution,
+    frameRate: settings.fps,
+    audio: true,
+    videoBitrate: 0,
+    audioBitrate: 128,
+  }
+  return {
+    args: [...trim, ...buildVideoArgs(input, output, format.id as VideoFormat, encode)],
+    output,
+    ext: format.ext,
+    mime: format.mime,
+  }
+}
+
+export function openClipDialog(title: string, onExport: (settings: ClipSettings) => void) {
+  const settings = loadClipSettings()
+  const { overlay, close } = openModal(`
+    <form class="modal-dialog export-dialog">
+      <h3>Export ${title}</h3>
+      <div class="settings-fields">
+        <label class="setting-field">
+          <span>Output</span>
+          <select name="kind">${renderOptions(CLIP_KINDS, settings.kind)}</select>
+        </label>
+        <label class="setting-field clip-option" data-kinds="frames">
+          <span>Image format</span>
+          <select name="sequenceFormat">${renderOptions(SEQUENCE_FORMATS, settings.sequenceFormat)}</select>
+        </label>
+        <label class="setting-field clip-option" data-kinds="mp4 webm gif webp frames">
+          <span>Frame rate (0 = source)</span>
+          <input type="number" name="fps" min="0" max="120" value="${settings.fps}" />
+        </label>
+        <label class="setting-field clip-option" data-kinds="mp4 webm gif webp frames">
+          <span>Max resolution (px)</span>
+          <input type="number" name="maxResolution" min="0" value="${settings.maxResolution}" />
+        </label>
+        <label class="setting-field clip-option" data-kinds="mp4 webm webp">
+          <span>Quality</span>
+          <input type="number" name="quality" min="1" max="100" value="${settings.quality}" />
+        </label>
+      </div>
+      <div class="modal-actions">
+        <button type="button" class="btn" data-action="cancel">Cancel</button>
+        <button type="submit" class="btn btn-primary">Export</button>
+      </div>
+    </form>
+  `)
+
+  const form = overlay.querySelector('form')!
+
+  const read = (): ClipSettings => {
+    const data = new FormData(form)
+    const number = (key: string, fallback: number) => {
+      const value = Math.round(Number(data.get(key)))
+      return Number.isFinite(value) && value >= 0 ? value : fallback
+    }
+    return {
+      kind: data.get('kind') as ClipKind,
+      fps: Math.min(120, number('fps', 0)),
+      maxResolution: number('maxResolution', 0),
+      quality: Math.max(1, Math.min(100, number('quality', settings.quality))),
+      sequenceFormat: data.get('sequenceFormat') as SequenceFormat,
+    }
+  }
+
+  const update = () => {
+    const { kind } = read()
+    form.querySelectorAll<HTMLElement>('.clip-option').forEach(el => {
+      el.classList.toggle('hidden', !el.dataset.kinds!.split(' ').includes(kind))
+    })
+  }
+
+  form.addEventListener('change', update)
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const current = read()
+    saveClipSettings(current)
+    close()
+    onExport(current)
+  })
+
+  update()
+  return close
+}
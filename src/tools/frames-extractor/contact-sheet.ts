@@ -0,0 +1,260 @@
+import { openModal, renderOptions } from '../../lib/dialog'
+import { createPdf, type PdfPage } from '../../lib/pdf'
+import { loadSettings, saveSettings } from '../../lib/storage'
+
+export type SheetOutput = 'png' | 'jpeg' | 'pdf'
+
+export interface ContactSheetSettings {
+  output: SheetOutput
+  columns: number
+  cellWidth: number
+  spacing: number
+  background: string
+  rowsPerPage: number
+  captionIndex: boolean
+  captionTimecode: boolean
+  captionLabel: boolean
+}
+
+export interface SheetCaption {
+  index: number
+  timecode: string
+  label: string
+}
+
+const STORAGE_KEY = 'frames-extractor:contact-sheet'
+
+// Browsers refuse to allocate canvases much beyond this on a side
+const MAX_CANVAS_SIDE = 16384
+
+const OUTPUTS: { id: SheetOutput; label: string; ext: string; mime: string }[] = [
+  { id: 'png', label: 'Single image (PNG)', ext: '.png', mime: 'image/png' },
+  { id: 'jpeg', label: 'Single image (JPEG)', ext: '.jpg', mime: 'image/jpeg' },
+  { id: 'pdf', label: 'PDF, one page per grid', ext: '.pdf', mime: 'application/pdf' },
+]
+
+export const DEFAULT_CONTACT_SHEET_SETTINGS: ContactSheetSettings = {
+  output: 'png',
+  columns: 4,
+  cellWidth: 400,
+  spacing: 16,
+  background: '#ffffff',
+  rowsPerPage: 4,
+  captionIndex: true,
+  captionTimecode: true,
+  captionLabel: true,
+}
+
+export function loadContactSheetSettings(): ContactSheetSettings {
+  return loadSettings(STORAGE_KEY, DEFAULT_CONTACT_SHEET_SETTINGS)
+}
+
+export function saveContactSheetSettings(settings: ContactSheetSettings) {
+  saveSettings(STORAGE_KEY, settings)
+}
+
+export function getSheetOutput(settings: ContactSheetSettings) {
+  return OUTPUTS.find(o => o.id === settings.output) ?? OUTPUTS[0]
+}
+
+// Dark text on light backgrounds and vice versa
+function captionColor(background: string): string {
+  const value = parseInt(background.replace('#', ''), 16)
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+  return (0.299 * r) + (0.587 * g) + (0.114 * b) > 150 ? '#111111' : '#f5f5f5'
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mime: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('The sheet is too large to encode'))), mime, quality)
+  })
+}
+
+// Lays frames out in a grid, page by page. A single image is one page holding
+// every row; a PDF starts a new page every rowsPerPage rows.
+export function createContactSheet(settings: ContactSheetSettings, frameAspect: number, count: number, hasLabels: boolean) {
+  const columns = Math.max(1, Math.min(count, settings.columns))
+  const rowsPerPage = settings.output === 'pdf'
+    ? Math.max(1, settings.rowsPerPage)
+    : Math.ceil(count / columns)
+
+  const firstLine = settings.captionIndex || settings.captionTimecode
+  const secondLine = settings.captionLabel && hasLabels
+  const lines = (firstLine ? 1 : 0) + (secondLine ? 1 : 0)
+
+  // Shrink cells when the requested size wouldn't fit in a canvas
+  const layout = (cellWidth: number) => {
+    const fontSize = Math.max(10, Math.round(cellWidth / 22))
+    const captionHeight = lines > 0 ? Math.round((lines * fontSize * 1.4) + (fontSize * 0.4)) : 0
+    const imageHeight = Math.round(cellWidth / frameAspect)
+    const cellHeight = imageHeight + captionHeight
+    return {
+      cellWidth,
+      imageHeight,
+      cellHeight,
+      fontSize,
+      width: (columns * cellWidth) + ((columns + 1) * settings.spacing),
+      height: (rowsPerPage * cellHeight) + ((rowsPerPage + 1) * settings.spacing),
+    }
+  }
+  let grid = layout(settings.cellWidth)
+  const overflow = Math.max(grid.width, grid.height) / MAX_CANVAS_SIDE
+  if (overflow > 1) grid = layout(Math.floor(settings.cellWidth / overflow))
+
+  const output = getSheetOutput(settings)
+  const perPage = columns * rowsPerPage
+  const pages: PdfPage[] = []
+  let canvas: HTMLCanvasElement | null = null
+  let ctx: CanvasRenderingContext2D | null = null
+  let added = 0
+
+  function startPage(remaining: number) {
+    canvas = document.createElement('canvas')
+    canvas.width = grid.width
+    // The last page only needs as many rows as it holds
+    const rows = Math.min(rowsPerPage, Math.ceil(remaining / columns))
+    canvas.height = (rows * grid.cellHeight) + ((rows + 1) * settings.spacing)
+    ctx = canvas.getContext('2d')!
+    ctx.fillStyle = settings.background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  async function flushPage() {
+    if (!canvas) return
+    if (output.id === 'pdf') {
+      pages.push({ jpeg: await canvasToBlob(canvas, 'image/jpeg', 0.9), width: canvas.width, height: canvas.height })
+    }
+  }
+
+  return {
+    async add(source: CanvasImageSource, crop: { sx: number; sy: number; sw: number; sh: number }, caption: SheetCaption) {
+      const slot = added % perPage
+      if (slot === 0) {
+        await flushPage()
+        startPage(count - added)
+      }
+      added++
+
+      const column = slot % columns
+      const row = Math.floor(slot / columns)
+      const x = settings.spacing + (column * (grid.cellWidth + settings.spacing))
+      const y = settings.spacing + (row * (grid.cellHeight + settings.spacing))
+      ctx!.drawImage(source, crop.sx, crop.sy, crop.sw, crop.sh, x, y, grid.cellWidth, grid.imageHeight)
+
+      ctx!.fillStyle = captionColor(settings.background)
+      ctx!.font = `${grid.fontSize}px system-ui, sans-serif`
+      ctx!.textBaseline = 'top'
+      let textY = y + grid.imageHeight + Math.round(grid.fontSize * 0.4)
+      const fit = (text: string) => {
+        // Trim long labels so they stay inside their cell
+        let fitted = text
+        while (fitted.length > 1 && ctx!.measureText(fitted).width > grid.cellWidth) fitted = fitted.slice(0, -2) + '…'
+        return fitted
+      }
+      if (firstLine) {
+        const parts = [settings.captionIndex ? `#${caption.index}` : '', settings.captionTimecode ? caption.timecode : '']
+        ctx!.fillText(fit(parts.filter(Boolean).join('  ')), x, textY)
+        textY += Math.round(grid.fontSize * 1.4)
+      }
+      if (secondLine && caption.label) {
+        ctx!.fillText(fit(caption.label), x, textY)
+      }
+    },
+    async finish(): Promise<Blob> {
+      if (output.id === 'pdf') {
+        await flushPage()
+        return createPdf(pages)
+      }
+      return canvasToBlob(canvas!, output.mime, 0.92)
+    },
+  }
+}
+
+export function openContactSheetDialog(onExport: (settings: ContactSheetSettings) => void) {
+  const settings = loadContactSheetSettings()
+  const checked = (value: boolean) => (value ? 'checked' : '')
+  const { overlay, close } = openModal(`
+    <form class="modal-dialog export-dialog">
+      <h3>Export Contact Sheet</h3>
+      <div class="settings-fields">
+        <label class="setting-field">
+          <span>Output</span>
+          <select name="output">${renderOptions(OUTPUTS, settings.output)}</select>
+        </label>
+        <label class="setting-field">
+          <span>Columns</span>
+          <input type="number" name="columns" min="1" max="20" value="${settings.columns}" />
+        </label>
+        <label class="setting-field sheet-pdf-only">
+          <span>Rows per page</span>
+          <input type="number" name="rowsPerPage" min="1" max="20" value="${settings.rowsPerPage}" />
+        </label>
+        <label class="setting-field">
+          <span>Frame width (px)</span>
+          <input type="number" name="cellWidth" min="64" max="3840" value="${settings.cellWidth}" />
+        </label>
+        <label class="setting-field">
+          <span>Spacing (px)</span>
+          <input type="number" name="spacing" min="0" max="200" value="${settings.spacing}" />
+        </label>
+        <label class="setting-field">
+          <span>Background</span>
+          <input type="color" name="background" value="${settings.background}" />
+        </label>
+        <label class="setting-field">
+          <span>Caption: index</span>
+          <input type="checkbox" name="captionIndex" ${checked(settings.captionIndex)} />
+        </label>
+        <label class="setting-field">
+          <span>Caption: timecode</span>
+          <input type="checkbox" name="captionTimecode" ${checked(settings.captionTimecode)} />
+        </label>
+        <label class="setting-field">
+          <span>Caption: label</span>
+          <input type="checkbox" name="captionLabel" ${checked(settings.captionLabel)} />
+        </label>
+      </div>
+      <div class="modal-actions">
+        <button type="button" class="btn" data-action="cancel">Cancel</button>
+        <button type="submit" class="btn btn-primary">Export</button>
+      </div>
+    </form>
+  `)
+
+  const form = overlay.querySelector('form')!
+
+  const read = (): ContactSheetSettings => {
+    const data = new FormData(form)
+    const number = (key: string, min: number, max: number, fallback: number) => {
+      const value = Math.round(Number(data.get(key)))
+      return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback
+    }
+    return {
+      output: data.get('output') as SheetOutput,
+      columns: number('columns', 1, 20, settings.columns),
+      cellWidth: number('cellWidth', 64, 3840, settings.cellWidth),
+      spacing: number('spacing', 0, 200, settings.spacing),
+      background: String(data.get('background') ?? settings.background),
+      rowsPerPage: number('rowsPerPage', 1, 20, settings.rowsPerPage),
+      captionIndex: data.has('captionIndex'),
+      captionTimecode: data.has('captionTimecode'),
+      captionLabel: data.has('captionLabel'),
+    }
+  }
+
+  const update = () => {
+    form.querySelector('.sheet-pdf-only')!.classList.toggle('hidden', read().output !== 'pdf')
+  }
+
+  form.addEventListener('change', update)
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const current = read()
+    saveContactSheetSettings(current)
+    close()
+    onExport(current)
+  })
+
+  update()
+  return close
+}
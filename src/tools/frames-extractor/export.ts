@@ -0,0 +1,266 @@
+import { openModal, renderOptions } from '../../lib/dialog'
+import { canEncodeImage } from '../../lib/image-encoding'
+import { loadSettings, saveSettings } from '../../lib/storage'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+export type ResolutionPreset = 'original' | 'custom' | '2160p' | '1440p' | '1080p' | '720p' | '480p'
+export type AspectRatio = 'none' | '16:9' | '9:16' | '1:1' | '4:3' | '4:5'
+
+export interface ExportSettings {
+  format: ImageFormat
+  quality: number
+  resolution: ResolutionPreset
+  customWidth: number
+  customHeight: number
+  aspect: AspectRatio
+  filenameTemplate: string
+}
+
+export interface FrameGeometry {
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  width: number
+  height: number
+}
+
+export interface FilenameContext {
+  video: string
+  index: number
+  time: number
+  frame: number
+  label: string
+  category: string
+}
+
+const STORAGE_KEY = 'frames-extractor:export'
+
+const FORMATS: { id: ImageFormat; label: string; mime: string; ext: string }[] = [
+  { id: 'png', label: 'PNG', mime: 'image/png', ext: '.png' },
+  { id: 'jpeg', label: 'JPEG', mime: 'image/jpeg', ext: '.jpg' },
+  { id: 'webp', label: 'WebP', mime: 'image/webp', ext: '.webp' },
+  { id: 'avif', label: 'AVIF', mime: 'image/avif', ext: '.avif' },
+]
+
+// Boxes are landscape; they are flipped for portrait sources so "1080p" means
+// 1080 on the short edge either way.
+const RESOLUTIONS: { id: ResolutionPreset; label: string; box?: [number, number] }[] = [
+  { id: 'original', label: 'Original' },
+  { id: '2160p', label: '2160p (4K)', box: [3840, 2160] },
+  { id: '1440p', label: '1440p', box: [2560, 1440] },
+  { id: '1080p', label: '1080p', box: [1920, 1080] },
+  { id: '720p', label: '720p', box: [1280, 720] },
+  { id: '480p', label: '480p', box: [854, 480] },
+  { id: 'custom', label: 'Custom' },
+]
+
+const ASPECTS: { id: AspectRatio; label: string; ratio?: number }[] = [
+  { id: 'none', label: 'No crop' },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+]
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 95,
+  resolution: 'original',
+  customWidth: 1920,
+  customHeight: 0,
+  aspect: 'none',
+  filenameTemplate: 'frame_{index}_{timecode}',
+}
+
+export function loadExportSettings(): ExportSettings {
+  return loadSettings(STORAGE_KEY, DEFAULT_EXPORT_SETTINGS)
+}
+
+export function saveExportSettings(settings: ExportSettings) {
+  saveSettings(STORAGE_KEY, settings)
+}
+
+export function getFormat(settings: ExportSettings) {
+  return FORMATS.find(f => f.id === settings.format) ?? FORMATS[0]
+}
+
+let encodableFormats: Promise<Set<ImageFormat>> | null = null
+
+export function getEncodableFormats(): Promise<Set<ImageFormat>> {
+  encodableFormats ??= Promise.all(FORMATS.map(async format => (await canEncodeImage(format.mime)) ? format.id : null))
+    .then(ids => new Set(ids.filter((id): id is ImageFormat => id !== null)))
+  return encodableFormats
+}
+
+export function computeFrameGeometry(settings: ExportSettings, sourceWidth: number, sourceHeight: number): FrameGeometry {
+  let sx = 0
+  let sy = 0
+  let sw = sourceWidth
+  let sh = sourceHeight
+
+  const ratio = ASPECTS.find(a => a.id === settings.aspect)?.ratio
+  if (ratio) {
+    if (sw / sh > ratio) {
+      sw = Math.round(sh * ratio)
+      sx = Math.round((sourceWidth - sw) / 2)
+    } else {
+      sh = Math.round(sw / ratio)
+      sy = Math.round((sourceHeight - sh) / 2)
+    }
+  }
+
+  let width = sw
+  let height = sh
+
+  if (settings.resolution === 'custom') {
+    if (settings.customWidth > 0 && settings.customHeight > 0) {
+      width = settings.customWidth
+      height = settings.customHeight
+    } else if (settings.customWidth > 0) {
+      width = settings.customWidth
+      height = Math.round(sh * (settings.customWidth / sw))
+    } else if (settings.customHeight > 0) {
+      height = settings.customHeight
+      width = Math.round(sw * (settings.customHeight / sh))
+    }
+  } else {
+    const box = RESOLUTIONS.find(r => r.id === settings.resolution)?.box
+    if (box) {
+      const [boxWidth, boxHeight] = sw >= sh ? box : [box[1], box[0]]
+      const scale = Math.min(boxWidth / sw, boxHeight / sh)
+      width = Math.round(sw * scale)
+      height = Math.round(sh * scale)
+    }
+  }
+
+  return { sx, sy, sw, sh, width, height }
+}
+
+export function formatTimeFilename(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  const ms = Math.floor((seconds % 1) * 1000)
+  return `${mins}m${String(secs).padStart(2, '0')}s${String(ms).padStart(3, '0')}`
+}
+
+export function expandFilename(template: string, context: FilenameContext, settings: ExportSettings): string {
+  const tokens: Record<string, string> = {
+    video: context.video,
+    index: String(context.index).padStart(3, '0'),
+    frame: String(context.frame),
+    timecode: formatTimeFilename(context.time),
+    time: context.time.toFixed(3),
+    label: context.label,
+    category: context.category,
+  }
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+    .replace(/[\\/:*?"<>|]/g, '_')
+    // Empty tokens such as an unset {label} shouldn't leave stray separators
+    .replace(/_{2,}/g, '_')
+    .replace(/^[\s_-]+|[\s_-]+$/g, '')
+  return (name || `frame_${tokens.index}`) + getFormat(settings).ext
+}
+
+export function openExportDialog(
+  source: { width: number; height: number; preview: FilenameContext },
+  onExport: (settings: ExportSettings) => void
+) {
+  const settings = loadExportSettings()
+  const { overlay, close } = openModal(`
+    <form class="modal-dialog export-dialog">
+      <h3>Export Frames</h3>
+      <div class="settings-fields">
+        <label class="setting-field">
+          <span>Format</span>
+          <select name="format">${renderOptions(FORMATS, settings.format)}</select>
+        </label>
+        <label class="setting-field">
+          <span>Quality</span>
+          <input type="number" name="quality" min="1" max="100" value="${settings.quality}" />
+        </label>
+        <label class="setting-field">
+          <span>Resolution</span>
+          <select name="resolution">${renderOptions(RESOLUTIONS, settings.resolution)}</select>
+        </label>
+        <label class="setting-field custom-size">
+          <span>Width (px)</span>
+          <input type="number" name="customWidth" min="0" value="${settings.customWidth}" />
+        </label>
+        <label class="setting-field custom-size">
+          <span>Height (px)</span>
+          <input type="number" name="customHeight" min="0" value="${settings.customHeight}" />
+        </label>
+        <label class="setting-field">
+          <span>Crop to aspect</span>
+          <select name="aspect">${renderOptions(ASPECTS, settings.aspect)}</select>
+        </label>
+      </div>
+      <label class="setting-field template-field">
+        <span>Filename template: {video} {index} {frame} {timecode} {time} {label} {category}</span>
+        <input type="text" name="filenameTemplate" value="${settings.filenameTemplate.replace(/"/g, '&quot;')}" />
+      </label>
+      <p class="export-preview"></p>
+      <div class="modal-actions">
+        <button type="button" class="btn" data-action="cancel">Cancel</button>
+        <button type="submit" class="btn btn-primary">Export</button>
+      </div>
+    </form>
+  `)
+
+  const form = overlay.querySelector('form')!
+  const preview = overlay.querySelector<HTMLParagraphElement>('.export-preview')!
+  const formatSelect = form.querySelector<HTMLSelectElement>('[name="format"]')!
+
+  const read = (): ExportSettings => {
+    const data = new FormData(form)
+    const number = (key: string, fallback: number) => {
+      const raw = data.get(key)
+      if (raw === null || raw === '') return fallback
+      const value = Math.round(Number(raw))
+      return Number.isFinite(value) && value >= 0 ? value : fallback
+    }
+    return {
+      format: data.get('format') as ImageFormat,
+      quality: Math.max(1, Math.min(100, number('quality', settings.quality))),
+      resolution: data.get('resolution') as ResolutionPreset,
+      customWidth: number('customWidth', 0),
+      customHeight: number('customHeight', 0),
+      aspect: data.get('aspect') as AspectRatio,
+      filenameTemplate: String(data.get('filenameTemplate') ?? ''),
+    }
+  }
+
+  const update = () => {
+    const current = read()
+    const { width, height } = computeFrameGeometry(current, source.width, source.height)
+    form.querySelector<HTMLInputElement>('[name="quality"]')!.disabled = current.format === 'png'
+    form.querySelectorAll('.custom-size').forEach(el => el.classList.toggle('hidden', current.resolution !== 'custom'))
+    preview.textContent = `${width}×${height} · ${expandFilename(current.filenameTemplate, source.preview, current)}`
+  }
+
+  form.addEventListener('input', update)
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const current = read()
+    saveExportSettings(current)
+    close()
+    onExport(current)
+  })
+
+  update()
+  getEncodableFormats().then(supported => {
+    for (const option of formatSelect.options) {
+      if (supported.has(option.value as ImageFormat)) continue
+      option.disabled = true
+      option.textContent += ' (not supported by this browser)'
+    }
+    if (formatSelect.selectedOptions[0]?.disabled) {
+      formatSelect.value = DEFAULT_EXPORT_SETTINGS.format
+      update()
+    }
+  })
+  return close
+}
@@ -0,0 +1,130 @@
+// Thumbnails are grabbed from a second, hidden video element so generating
+// them never moves the playhead of the one the user is watching.
+
+const THUMBNAIL_HEIGHT = 80
+
+interface PendingGroup {
+  times: number[]
+  priority: number
+}
+
+function thumbnailKey(time: number): number {
+  return Math.round(time * 100)
+}
+
+export function createThumbnailer(url: string, onThumbnail: () => void) {
+  const source = document.createElement('video')
+  source.muted = true
+  source.preload = 'auto'
+  source.src = url
+
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')!
+  const cache = new Map<number, ImageBitmap>()
+  const groups = new Map<string, PendingGroup>()
+  let running = false
+  let destroyed = false
+
+  function nextTime(): number | null {
+    const ordered = [...groups.values()].sort((a, b) => b.priority - a.priority)
+    for (const group of ordered) {
+      while (group.times.length > 0) {
+        const time = group.times.shift()!
+        if (!cache.has(thumbnailKey(time))) return time
+      }
+    }
+    return null
+  }
+
+  async function capture(time: number) {
+    if (source.readyState < HTMLMediaElement.HAVE_METADATA) {
+      await new Promise(resolve => source.addEventListener('loadedmetadata', resolve, { once: true }))
+    }
+    source.currentTime = time
+    await new Promise(resolve => source.addEventListener('seeked', resolve, { once: true }))
+    canvas.height = THUMBNAIL_HEIGHT
+    canvas.width = Math.round(THUMBNAIL_HEIGHT * (source.videoWidth / source.videoHeight)) || THUMBNAIL_HEIGHT
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+    cache.set(thumbnailKey(time), await createImageBitmap(canvas))
+  }
+
+  async function run() {
+    if (running) return
+    running = true
+    try {
+      let time = nextTime()
+      while (time !== null && !destroyed) {
+        await capture(time)
+        if (!destroyed) onThumbnail()
+        time = nextTime()
+      }
+    } catch (err) {
+      console.error('Thumbnail error:', err)
+    } finally {
+      running = false
+    }
+  }
+
+  return {
+    get(time: number): ImageBitmap | undefined {
+      return cache.get(thumbnailKey(time))
+    },
+    // Each group keeps only its latest request, so a strip that re-laid out
+    // (e.g. the zoom window moved) drops thumbnails nobody will see.
+    request(group: string, times: number[], priority = 0) {
+      if (destroyed) return
+      groups.set(group, { times: times.filter(t => !cache.has(thumbnailKey(t))), priority })
+      run()
+    },
+    destroy() {
+      destroyed = true
+      groups.clear()
+      cache.forEach(bitmap => bitmap.close())
+      cache.clear()
+      source.removeAttribute('src')
+      source.load()
+    },
+  }
+}
+
+export type Thumbnailer = ReturnType<typeof createThumbnailer>
+
+// Sizes the canvas backing store to its CSS box so drawing stays crisp.
+export function fitCanvas(canvas: HTMLCanvasElement): CanvasRenderingContext2D | null {
+  const ratio = window.devicePixelRatio || 1
+  const width = Math.round(canvas.clientWidth * ratio)
+  const height = Math.round(canvas.clientHeight * ratio)
+  if (width === 0 || height === 0) return null
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width
+    canvas.height = height
+  }
+  return canvas.getContext('2d')
+}
+
+// Fills the canvas with tiles, each showing the frame at the middle of the
+// time span it covers. Missing tiles are requested and drawn on a later pass.
+export function drawFilmstrip(
+  canvas: HTMLCanvasElement,
+  thumbnailer: Thumbnailer,
+  group: string,
+  start: number,
+  duration: number,
+  aspect: number,
+  priority: number
+) {
+  const ctx = fitCanvas(canvas)
+  if (!ctx || duration <= 0) return
+
+  const tileWidth = canvas.height * aspect
+  const count = Math.max(1, Math.ceil(canvas.width / tileWidth))
+  const times = Array.from({ length: count }, (_, i) => start + ((i + 0.5) * tileWidth / canvas.width) * duration)
+    .map(t => Math.min(t, start + duration))
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  times.forEach((time, i) => {
+    const bitmap = thumbnailer.get(time)
+    if (bitmap) ctx.drawImage(bitmap, i * tileWidth, 0, tileWidth, canvas.height)
+  })
+  thumbnailer.request(group, times, priority)
+}
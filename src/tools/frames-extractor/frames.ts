@@ -0,0 +1,103 @@
+export const DEFAULT_FRAME_RATE = 30
+
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120]
+const DETECTION_SAMPLES = 24
+const DETECTION_TIMEOUT = 3000
+
+export interface FrameRateInfo {
+  fps: number
+  detected: boolean
+}
+
+export function supportsFrameCallback(video: HTMLVideoElement): boolean {
+  return typeof video.requestVideoFrameCallback === 'function'
+}
+
+// Seeking exactly onto a frame's timestamp can resolve to the previous frame
+// through float rounding, so aim slightly inside the frame instead.
+export function frameSeekTime(time: number, fps: number): number {
+  return time + Math.min(0.001, 0.25 / fps)
+}
+
+export function timeToFrame(time: number, fps: number): number {
+  return Math.round(time * fps)
+}
+
+// Resolves with the media time of the next presented frame, or null when no
+// new frame shows up (e.g. the seek landed on the frame already on screen).
+export function waitForPresentedFrame(video: HTMLVideoElement, timeout = 300): Promise<number | null> {
+  if (!supportsFrameCallback(video)) {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(null), timeout)
+      video.addEventListener('seeked', () => {
+        clearTimeout(timer)
+        resolve(video.currentTime)
+      }, { once: true })
+    })
+  }
+
+  return new Promise(resolve => {
+    const id = video.requestVideoFrameCallback((_, metadata) => {
+      clearTimeout(timer)
+      resolve(metadata.mediaTime)
+    })
+    const timer = setTimeout(() => {
+      video.cancelVideoFrameCallback(id)
+      resolve(null)
+    }, timeout)
+  })
+}
+
+// Plays the (muted) video for a moment and measures the spacing between
+// presented frames. The median frame duration is robust to dropped frames and
+// to the odd long frame in variable-frame-rate footage.
+export async function detectFrameRate(video: HTMLVideoElement): Promise<FrameRateInfo> {
+  if (!supportsFrameCallback(video)) {
+    return { fps: DEFAULT_FRAME_RATE, detected: false }
+  }
+
+  const startTime = video.currentTime
+  const durations: number[] = []
+
+  await new Promise<void>(resolve => {
+    let previous: VideoFrameCallbackMetadata | null = null
+    let finished = false
+    const finish = () => {
+      if (finished) return
+      finished = true
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(finish, DETECTION_TIMEOUT)
+
+    const onFrame = (_: number, metadata: VideoFrameCallbackMetadata) => {
+      if (finished) return
+      if (previous) {
+        const frames = metadata.presentedFrames - previous.presentedFrames
+        const elapsed = metadata.mediaTime - previous.mediaTime
+        if (frames > 0 && elapsed > 0) durations.push(elapsed / frames)
+      }
+      previous = metadata
+      if (durations.length >= DETECTION_SAMPLES) {
+        finish()
+      } else {
+        video.requestVideoFrameCallback(onFrame)
+      }
+    }
+
+    video.requestVideoFrameCallback(onFrame)
+    video.play().catch(finish)
+  })
+
+  video.pause()
+  video.currentTime = startTime
+
+  if (durations.length === 0) {
+    return { fps: DEFAULT_FRAME_RATE, detected: false }
+  }
+
+  durations.sort((a, b) => a - b)
+  const fps = 1 / durations[Math.floor(durations.length / 2)]
+  const common = COMMON_FRAME_RATES.find(rate => Math.abs(rate - fps) / rate < 0.01)
+  return { fps: common ?? Math.round(fps * 100) / 100, detected: true }
+}
@@ -0,0 +1,70 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { execWithProgress, mountInputFile } from '../../lib/ffmpeg'
+
+export type GeneratorMode = 'seconds' | 'frames' | 'count' | 'scene'
+
+export const GENERATOR_MODES: { id: GeneratorMode; label: string; valueLabel: string; defaultValue: number; step: number }[] = [
+  { id: 'seconds', label: 'Every N seconds', valueLabel: 'Seconds', defaultValue: 5, step: 0.1 },
+  { id: 'frames', label: 'Every N frames', valueLabel: 'Frames', defaultValue: 30, step: 1 },
+  { id: 'count', label: 'N evenly spaced', valueLabel: 'Count', defaultValue: 10, step: 1 },
+  { id: 'scene', label: 'Scene changes', valueLabel: 'Threshold (0–1)', defaultValue: 0.3, step: 0.05 },
+]
+
+// Markers sit on frame start times, the same timestamps the presented-frame
+// snapping produces.
+export function snapToFrame(time: number, fps: number): number {
+  return Math.floor((time * fps) + 1e-6) / fps
+}
+
+export function intervalTimes(start: number, end: number, step: number): number[] {
+  if (step <= 0 || end <= start) return []
+  // Multiplying instead of accumulating keeps float error from drifting
+  // across long clips
+  const count = Math.ceil((end - start) / step)
+  return Array.from({ length: count }, (_, i) => start + (i * step)).filter(t => t < end)
+}
+
+// Each marker sits in the middle of its slice so the first and last ones
+// don't land on fade-ins or the final (often black) frame.
+export function evenlySpacedTimes(start: number, end: number, count: number): number[] {
+  if (count <= 0 || end <= start) return []
+  const slice = (end - start) / count
+  return Array.from({ length: count }, (_, i) => start + (slice * (i + 0.5)))
+}
+
+export async function detectSceneChanges(
+  ffmpeg: FFmpeg,
+  file: File,
+  start: number,
+  end: number,
+  threshold: number,
+  onProgress: (ratio: number) => void
+): Promise<number[]> {
+  const times: number[] = []
+  const onLog = ({ message }: { message: string }) => {
+    const match = message.match(/pts_time:\s*([\d.]+)/)
+    if (match && message.includes('Parsed_showinfo')) {
+      times.push(start + parseFloat(match[1]))
+    }
+  }
+
+  const input = await mountInputFile(ffmpeg, file)
+  ffmpeg.on('log', onLog)
+  try {
+    const exitCode = await execWithProgress(ffmpeg, [
+      '-ss', String(start),
+      '-t', String(end - start),
+      '-i', input.path,
+      '-an',
+      // Scoring downscaled frames is much faster and barely changes the result
+      '-vf', `scale=320:-2,select='gt(scene,${threshold})',showinfo`,
+      '-f', 'null', '-',
+    ], onProgress)
+    if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`)
+  } finally {
+    ffmpeg.off('log', onLog)
+    await input.unmount()
+  }
+
+  return times
+}
@@ -0,0 +1,1933 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { createFFmpeg, execWithProgress, mountInputFile, readOutputBlob, removeOutput } from '../../lib/ffmpeg'
+import { escapeHtml } from '../../lib/format'
+import type { Tool } from '../../main'
+import { idbDelete, idbGet, idbSet } from '../../lib/idb'
+import { getOutputDir, renderOutputDirControls, setupOutputDirControls, writeToOutputDir } from '../../lib/output-dir'
+import { type MediaInfo, probeMedia, renderMediaInfo } from '../../lib/probe'
+import { openZipDownload } from '../../lib/zip'
+import { buildClipArgs, type ClipRange, type ClipSettings, openClipDialog } from './clips'
+import {
+  type ContactSheetSettings,
+  createContactSheet,
+  getSheetOutput,
+  openContactSheetDialog,
+} from './contact-sheet'
+import {
+  computeFrameGeometry,
+  expandFilename,
+  type ExportSettings,
+  formatTimeFilename,
+  getEncodableFormats,
+  getFormat,
+  loadExportSettings,
+  openExportDialog,
+} from './export'
+import {
+  DEFAULT_FRAME_RATE,
+  detectFrameRate,
+  type FrameRateInfo,
+  frameSeekTime,
+  supportsFrameCallback,
+  timeToFrame,
+  waitForPresentedFrame,
+} from './frames'
+import { createThumbnailer, drawFilmstrip, fitCanvas, type Thumbnailer } from './filmstrip'
+import {
+  detectSceneChanges,
+  evenlySpacedTimes,
+  GENERATOR_MODES,
+  type GeneratorMode,
+  intervalTimes,
+  snapToFrame,
+} from './generators'
+import { isTypingTarget, type KeyAction, loadKeymap, matchAction, openKeymapOverlay } from './keymap'
+import {
+  MARKER_FILE_ACCEPT,
+  MARKER_FILE_FORMATS,
+  type MarkerData,
+  type MarkerFileFormat,
+  parseMarkerFile,
+  serializeMarkers,
+} from './marker-files'
+import {
+  createMarkerHistory,
+  DEFAULT_CATEGORY,
+  getCategory,
+  MARKER_CATEGORIES,
+  type Marker,
+  type MarkerCategory,
+  type MarkerSnapshot,
+} from './markers'
+import { createProxy, extractFrame, isVideoFile, VIDEO_EXTS } from './proxy'
+import { drawTimeRuler } from './ruler'
+import { computeWaveform, drawWaveform, type WaveformPeaks } from './waveform'
+
+interface StoredMarkers {
+  markers: MarkerData[]
+  ranges?: Omit<ClipRange, 'id'>[]
+  updatedAt: number
+}
+
+// Generating more markers than this at once asks for confirmation first
+const LARGE_MARKER_BATCH = 500
+// The deepest zoom still shows this many frames across the detail timeline
+const MIN_ZOOM_WINDOW_FRAMES = 12
+const SLIDER_STEPS = 1000
+const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2, 4]
+const MAX_SHUTTLE_SPEED = 8
+
+// Aborted on unmount, which drops every listener registered with its signal
+let lifecycle = new AbortController()
+let video: HTMLVideoElement | null = null
+let videoFile: File | null = null
+let videoUrl: string | null = null
+// Set when the browser can't decode the file and playback runs off an FFmpeg proxy
+let isProxy = false
+let sourceSize: { width: number; height: number } | null = null
+let videoInfo: MediaInfo | null = null
+let videoFileName = 'video'
+let markerStoreKey: string | null = null
+let frameRate: FrameRateInfo = { fps: DEFAULT_FRAME_RATE, detected: false }
+let presentedTime = 0
+let frameCallbackId: number | null = null
+let isStepping = false
+let markers: Marker[] = []
+let markerSeq = 0
+let ranges: ClipRange[] = []
+let pendingIn: number | null = null
+let selectedIds = new Set<string>()
+let markerDrag: { id: string; timeline: 'main' | 'detail'; before: Marker[]; moved: boolean } | null = null
+const history = createMarkerHistory()
+let ffmpeg: FFmpeg | null = null
+let isFFmpegBusy = false
+let dragMode: 'main' | 'detail' | 'window-start' | 'window-end' | null = null
+let closeDialog: (() => void) | null = null
+let keymap = loadKeymap()
+let playbackRate = 1
+// Positive plays forward at that rate, negative scrubs backward, 0 is stopped
+let shuttleSpeed = 0
+let reverseFrame: number | null = null
+// How many times the detail window fits into the whole clip
+let zoomLevel = 2
+let zoomWindowStart = 0
+let zoomEnabled = true
+let thumbnailer: Thumbnailer | null = null
+let waveform: WaveformPeaks | null = null
+let timelineMediaFrame: number | null = null
+let timelineMediaKey = ''
+let hoverTime: number | null = null
+
+export const framesExtractor: Tool = { mount, unmount }
+
+function mount(container: HTMLElement) {
+  lifecycle = new AbortController()
+  container.innerHTML = `
+    <div class="frames-extractor">
+      <a href="/" class="back-link">&larr; Back</a>
+      <h1>Frames Extractor</h1>
+
+      <div id="drop-zone" class="drop-zone">
+        <p>Drop video here or click to select</p>
+        <input type="file" id="file-input" accept="video/*,${VIDEO_EXTS.join(',')}" hidden />
+      </div>
+
+      <div id="video-container" class="video-container hidden">
+        <video id="video" muted></video>
+
+        <div class="timeline-container">
+          <div id="main-timeline" class="timeline timeline-main">
+            <canvas id="main-filmstrip" class="filmstrip"></canvas>
+            <div id="main-progress" class="progress"></div>
+            <div id="main-ranges-container" class="ranges-container"></div>
+            <div id="main-markers-container" class="markers-container"></div>
+            <div id="zoom-window" class="zoom-window">
+              <div class="zoom-handle" data-edge="start"></div>
+              <div class="zoom-handle" data-edge="end"></div>
+            </div>
+          </div>
+          <canvas id="main-waveform" class="waveform hidden"></canvas>
+          <div class="zoom-controls">
+            <button id="magnifier-toggle" class="zoom-toggle-btn">Magnifier On</button>
+            <span class="zoom-label">Magnify</span>
+            <div id="zoom-buttons" class="zoom-buttons">
+              <input type="range" id="zoom-slider" class="zoom-slider" min="0" max="${SLIDER_STEPS}" />
+              <span id="zoom-value" class="zoom-label"></span>
+              <button id="zoom-fit-btn" class="zoom-btn" title="Zoom to the selected markers or the range under the playhead">Fit Selection</button>
+            </div>
+          </div>
+          <canvas id="detail-ruler" class="time-ruler"></canvas>
+          <div id="detail-timeline" class="timeline timeline-detail">
+            <canvas id="detail-filmstrip" class="filmstrip"></canvas>
+            <div id="detail-progress" class="progress"></div>
+            <div id="detail-ranges-container" class="ranges-container"></div>
+            <div id="detail-markers-container" class="markers-container"></div>
+          </div>
+          <canvas id="detail-waveform" class="waveform waveform-detail hidden"></canvas>
+          <div id="timeline-tooltip" class="timeline-tooltip hidden">
+            <canvas></canvas>
+            <span></span>
+          </div>
+          <div id="time-display" class="time-display">0:00 / 0:00</div>
+        </div>
+
+        <div class="controls">
+          <button id="play-btn" class="btn">Play</button>
+          <button id="shortcuts-btn" class="btn">Shortcuts</button>
+          <button id="info-btn" class="btn">Info</button>
+          <span class="hint">SPACE adds a marker, J/K/L shuttle, drag markers to retime them, Ctrl+wheel zooms, ? lists all shortcuts</span>
+          <span id="proxy-badge" class="proxy-badge hidden" title="Playing a lower-resolution proxy; exported frames are decoded from the original">Proxy</span>
+          ${renderOutputDirControls()}
+          <button id="contact-sheet-btn" class="btn">Contact Sheet</button>
+          <button id="export-btn" class="btn btn-primary">Export Frames</button>
+        </div>
+
+        <div id="video-info" class="media-info-panel hidden"></div>
+
+        <div id="generator-panel" class="generator-panel">
+          <h3>Generate Markers</h3>
+          <div class="settings-fields">
+            <label class="setting-field">
+              <span>Mode</span>
+              <select id="generator-mode">
+                ${GENERATOR_MODES.map(m => `<option value="${m.id}">${m.label}</option>`).join('')}
+              </select>
+            </label>
+            <label class="setting-field">
+              <span id="generator-value-label">${GENERATOR_MODES[0].valueLabel}</span>
+              <input type="number" id="generator-value" min="0" step="${GENERATOR_MODES[0].step}" value="${GENERATOR_MODES[0].defaultValue}" />
+            </label>
+            <label class="setting-field">
+              <span>From (s)</span>
+              <input type="number" id="generator-start" min="0" step="0.1" placeholder="Start" />
+            </label>
+            <label class="setting-field">
+              <span>To (s)</span>
+              <input type="number" id="generator-end" min="0" step="0.1" placeholder="End" />
+            </label>
+          </div>
+          <div class="generator-actions">
+            <button id="generator-use-window" class="btn">Use magnifier range</button>
+            <label class="generator-replace">
+              <input type="checkbox" id="generator-replace" /> Replace existing markers
+            </label>
+            <button id="generator-run" class="btn btn-primary">Generate</button>
+            <button id="generator-cancel" class="btn hidden">Cancel</button>
+            <span id="generator-status" class="generator-status"></span>
+          </div>
+        </div>
+
+        <div class="marker-file-actions">
+          <select id="marker-file-format">
+            ${MARKER_FILE_FORMATS.map(f => `<option value="${f.id}">${f.label}</option>`).join('')}
+          </select>
+          <button id="marker-save-btn" class="btn">Save Markers</button>
+          <button id="marker-load-btn" class="btn">Load Markers</button>
+          <input type="file" id="marker-file-input" accept="${MARKER_FILE_ACCEPT}" hidden />
+        </div>
+
+        <div id="markers-list" class="markers-list"></div>
+        <div id="ranges-list" class="markers-list ranges-list"></div>
+      </div>
+
+      <div id="export-progress" class="export-progress hidden">
+        <p id="export-progress-label">Exporting frames...</p>
+        <progress id="progress-bar" value="0" max="100"></progress>
+        <button id="export-cancel" class="btn hidden">Cancel</button>
+      </div>
+    </div>
+  `
+
+  markers = []
+  ranges = []
+  pendingIn = null
+  selectedIds = new Set()
+  history.clear()
+
+  setupDropZone()
+  setupOutputDirControls()
+  setupGenerator()
+  setupMarkerFiles()
+  setupMarkerList()
+  setupRangeList()
+}
+
+function unmount() {
+  lifecycle.abort()
+  closeDialog?.()
+  closeDialog = null
+  stopReverse()
+  shuttleSpeed = 0
+  dragMode = null
+  markerDrag = null
+  hoverTime = null
+  if (timelineMediaFrame !== null) {
+    cancelAnimationFrame(timelineMediaFrame)
+    timelineMediaFrame = null
+  }
+  if (video && frameCallbackId !== null) {
+    video.cancelVideoFrameCallback(frameCallbackId)
+  }
+  frameCallbackId = null
+  releaseVideo()
+  video = null
+  videoFile = null
+  markerStoreKey = null
+  waveform = null
+  // Terminating also rejects whatever the instance was still running
+  ffmpeg?.terminate()
+  ffmpeg = null
+  isFFmpegBusy = false
+}
+
+// A detached <video> keeps playing and holds on to its source, so it is
+// emptied explicitly before the object URL goes.
+function releaseVideo() {
+  thumbnailer?.destroy()
+  thumbnailer = null
+  if (video) {
+    video.pause()
+    video.removeAttribute('src')
+    video.load()
+  }
+  if (videoUrl) {
+    URL.revokeObjectURL(videoUrl)
+    videoUrl = null
+  }
+}
+
+function setupDropZone() {
+  const dropZone = document.getElementById('drop-zone')!
+  const fileInput = document.getElementById('file-input') as HTMLInputElement
+
+  dropZone.addEventListener('click', () => fileInput.click())
+
+  dropZone.addEventListener('dragover', (e) => {
+    e.preventDefault()
+    dropZone.classList.add('dragover')
+  })
+
+  dropZone.addEventListener('dragleave', () => {
+    dropZone.classList.remove('dragover')
+  })
+
+  dropZone.addEventListener('drop', (e) => {
+    e.preventDefault()
+    dropZone.classList.remove('dragover')
+    const file = e.dataTransfer?.files[0]
+    if (file && isVideoFile(file)) {
+      loadVideo(file)
+    }
+  })
+
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0]
+    if (file) {
+      loadVideo(file)
+    }
+  })
+}
+
+function loadVideo(file: File) {
+  releaseVideo()
+  video = document.getElementById('video') as HTMLVideoElement
+  videoFile = file
+  videoFileName = file.name
+  markerStoreKey = null
+  frameRate = { fps: DEFAULT_FRAME_RATE, detected: false }
+  presentedTime = 0
+  isProxy = false
+  sourceSize = null
+  videoInfo = null
+  document.getElementById('video-info')!.classList.add('hidden')
+  playMedia(file, file)
+}
+
+// Points the player, filmstrip and waveform at `media`, which is either the
+// file itself or a proxy transcoded from it.
+function playMedia(file: File, media: Blob) {
+  if (!video) return
+  const target = video
+  const dropZone = document.getElementById('drop-zone')!
+  const videoContainer = document.getElementById('video-container')!
+
+  const url = URL.createObjectURL(media)
+  videoUrl = url
+  target.src = url
+
+  thumbnailer = createThumbnailer(url, () => {
+    timelineMediaKey = ''
+    scheduleTimelineMedia()
+    if (hoverTime !== null) renderTooltipThumbnail(hoverTime)
+  })
+  waveform = null
+
+  const pending = new AbortController()
+  const onUnsupported = () => {
+    pending.abort()
+    if (videoFile !== file) return
+    if (isProxy) {
+      alert(`Failed to play the proxy for ${file.name}.`)
+    } else {
+      loadProxy(file)
+    }
+  }
+  target.addEventListener('error', onUnsupported, { signal: pending.signal })
+  target.addEventListener('loadedmetadata', () => {
+    // Chrome reads the metadata of e.g. HEVC files even when it can't decode the video track
+    if (!target.videoWidth) return onUnsupported()
+    pending.abort()
+    dropZone.classList.add('hidden')
+    videoContainer.classList.remove('hidden')
+    document.getElementById('proxy-badge')!.classList.toggle('hidden', !isProxy)
+    setupVideoControls()
+    trackPresentedFrames()
+    initFrameRate()
+    restoreMarkers(file)
+    computeWaveform(media, target.duration).then(peaks => {
+      if (videoFile !== file) return
+      waveform = peaks
+      timelineMediaKey = ''
+      scheduleTimelineMedia()
+    })
+  }, { signal: pending.signal })
+}
+
+// Scrubbing runs off a proxy the browser can play, while exports still go back
+// to the original (see captureOriginalFrames).
+async function loadProxy(file: File) {
+  const exportProgress = document.getElementById('export-progress')!
+  const progressLabel = document.getElementById('export-progress-label')!
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+  const cancelBtn = document.getElementById('export-cancel')!
+  isFFmpegBusy = true
+  progressLabel.textContent = 'Loading FFmpeg...'
+  exportProgress.classList.remove('hidden')
+  cancelBtn.classList.remove('hidden')
+
+  let instance: FFmpeg | null = null
+  try {
+    instance = await getFFmpeg()
+    progressLabel.textContent = `This browser can't play ${file.name}, creating a proxy...`
+    const proxy = await createProxy(instance, file, (ratio) => {
+      progressBar.value = ratio * 100
+    })
+    if (videoFile !== file) return
+    releaseVideo()
+    isProxy = true
+    sourceSize = proxy.width > 0 ? { width: proxy.width, height: proxy.height } : null
+    playMedia(file, proxy.blob)
+  } catch (err) {
+    // A terminated instance means the user cancelled
+    if (instance && ffmpeg === instance) {
+      console.error('Proxy error:', err)
+      alert(err instanceof Error ? `Failed to decode ${file.name}: ${err.message}` : `Failed to decode ${file.name}.`)
+    }
+  } finally {
+    isFFmpegBusy = false
+    exportProgress.classList.add('hidden')
+    cancelBtn.classList.add('hidden')
+    progressLabel.textContent = 'Exporting frames...'
+    progressBar.value = 0
+  }
+}
+
+// Marker sets are keyed by what identifies the file without reading it, so
+// reopening the same video brings its markers back.
+async function restoreMarkers(file: File) {
+  if (!video) return
+  const key = `${file.name}:${file.size}:${video.duration}`
+  markerStoreKey = key
+  try {
+    const stored = await idbGet<StoredMarkers>('markers', key)
+    if (!stored || videoFile !== file || markers.length > 0 || ranges.length > 0) return
+    markers = stored.markers.map(toMarker)
+    ranges = (stored.ranges ?? []).map(r => ({ ...r, id: `range-${Date.now()}-${++markerSeq}` }))
+    history.clear()
+    renderMarkers()
+    renderRangeList()
+  } catch (err) {
+    console.error('Failed to restore markers:', err)
+  }
+}
+
+function persistMarkers() {
+  if (!markerStoreKey) return
+  const stored: StoredMarkers = {
+    markers: markers.map(toMarkerData),
+    ranges: ranges.map(({ start, end }) => ({ start, end })),
+    updatedAt: Date.now(),
+  }
+  const request = markers.length > 0 || ranges.length > 0
+    ? idbSet('markers', markerStoreKey, stored)
+    : idbDelete('markers', markerStoreKey)
+  request.catch(err => console.error('Failed to save markers:', err))
+}
+
+async function initFrameRate() {
+  if (!video) return
+  const target = video
+  const timeDisplay = document.getElementById('time-display')!
+  timeDisplay.textContent = 'Detecting frame rate...'
+  const detected = await detectFrameRate(target)
+  if (video !== target) return
+  frameRate = detected
+  renderTimeDisplay()
+  renderZoomControls()
+  renderMarkers()
+}
+
+// Keeps presentedTime pinned to the timestamp of the frame actually on screen,
+// which is what markers snap to.
+function trackPresentedFrames() {
+  if (!video) return
+  const target = video
+  if (frameCallbackId !== null) {
+    target.cancelVideoFrameCallback(frameCallbackId)
+    frameCallbackId = null
+  }
+  if (!supportsFrameCallback(target)) return
+
+  const onFrame = (_: number, metadata: VideoFrameCallbackMetadata) => {
+    presentedTime = metadata.mediaTime
+    renderTimeDisplay()
+    frameCallbackId = target.requestVideoFrameCallback(onFrame)
+  }
+  frameCallbackId = target.requestVideoFrameCallback(onFrame)
+}
+
+function getCurrentFrameTime(): number {
+  if (!video) return 0
+  return supportsFrameCallback(video) ? presentedTime : video.currentTime
+}
+
+async function stepFrame(direction: 1 | -1) {
+  if (!video || isStepping) return
+  isStepping = true
+  setShuttle(0)
+
+  const frameDuration = 1 / frameRate.fps
+  const start = getCurrentFrameTime()
+  let target = start + (direction * frameDuration)
+
+  try {
+    // Variable-frame-rate footage can hold a frame longer than the nominal
+    // duration, so keep nudging until a different frame is presented.
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const clamped = Math.max(0, Math.min(video.duration, target))
+      video.currentTime = frameSeekTime(clamped, frameRate.fps)
+      const presented = await waitForPresentedFrame(video)
+      if (presented !== null && presented !== start) {
+        presentedTime = presented
+        break
+      }
+      if (clamped === 0 || clamped === video.duration) break
+      target += direction * frameDuration
+    }
+  } finally {
+    isStepping = false
+  }
+
+  if (zoomEnabled) {
+    keepZoomWindowVisible()
+  }
+  renderTimelineState()
+  renderTimeDisplay()
+}
+
+function renderTimeDisplay() {
+  if (!video) return
+  const timeDisplay = document.getElementById('time-display')
+  if (!timeDisplay) return
+
+  const current = getCurrentFrameTime()
+  const totalFrames = timeToFrame(video.duration, frameRate.fps)
+  const fpsLabel = `${frameRate.fps} fps${frameRate.detected ? '' : ' (assumed)'}`
+  const rate = shuttleSpeed !== 0 ? shuttleSpeed : playbackRate
+  const rateLabel = rate !== 1 ? ` · ${rate}×` : ''
+  timeDisplay.textContent = `${formatTime(current)} / ${formatTime(video.duration)} · Frame ${timeToFrame(current, frameRate.fps)} / ${totalFrames} · ${fpsLabel}${rateLabel}`
+}
+
+function setupVideoControls() {
+  if (!video) return
+
+  const mainTimeline = document.getElementById('main-timeline')!
+  const detailTimeline = document.getElementById('detail-timeline')!
+  const playBtn = document.getElementById('play-btn')!
+  const exportBtn = document.getElementById('export-btn')!
+  const contactSheetBtn = document.getElementById('contact-sheet-btn')!
+  const zoomSlider = document.getElementById('zoom-slider') as HTMLInputElement
+  const zoomFitBtn = document.getElementById('zoom-fit-btn')!
+  const magnifierToggle = document.getElementById('magnifier-toggle') as HTMLButtonElement
+
+  zoomEnabled = true
+  zoomLevel = 2
+  zoomWindowStart = 0
+  renderZoomControls()
+  renderMagnifierState()
+
+  video.addEventListener('timeupdate', () => {
+    if (!video) return
+    if (zoomEnabled) {
+      keepZoomWindowVisible()
+    }
+    renderTimelineState()
+    renderTimeDisplay()
+  })
+
+  video.addEventListener('loadedmetadata', () => {
+    if (!video) return
+    renderTimelineState()
+  })
+
+  video.addEventListener('play', () => playBtn.textContent = 'Pause')
+  video.addEventListener('pause', () => {
+    playBtn.textContent = 'Play'
+    // Forward shuttle ends whenever playback stops, e.g. at the end of the clip
+    if (shuttleSpeed > 0) setShuttle(0)
+  })
+
+  playBtn.addEventListener('click', togglePlayback)
+  document.getElementById('shortcuts-btn')!.addEventListener('click', openShortcuts)
+  document.getElementById('info-btn')!.addEventListener('click', toggleVideoInfo)
+
+  mainTimeline.addEventListener('mousedown', (e) => {
+    const handle = (e.target as HTMLElement).closest<HTMLElement>('.zoom-handle')
+    if (handle) {
+      e.preventDefault()
+      dragMode = handle.dataset.edge === 'start' ? 'window-start' : 'window-end'
+      return
+    }
+    if (startMarkerDrag(e, 'main')) return
+    dragMode = 'main'
+    seekToMainTimeline(e)
+  })
+
+  detailTimeline.addEventListener('mousedown', (e) => {
+    if (startMarkerDrag(e, 'detail')) return
+    dragMode = 'detail'
+    seekToDetailTimeline(e)
+  })
+
+  mainTimeline.addEventListener('mousemove', (e) => showTooltip(e, 'main'))
+  detailTimeline.addEventListener('mousemove', (e) => showTooltip(e, 'detail'))
+  mainTimeline.addEventListener('mouseleave', hideTooltip)
+  detailTimeline.addEventListener('mouseleave', hideTooltip)
+
+  // Ctrl+wheel zooms around the time under the cursor, plain wheel pans
+  const onWheel = (e: WheelEvent, timeline: 'main' | 'detail') => {
+    if (!zoomEnabled) return
+    e.preventDefault()
+    if (!e.ctrlKey && !e.metaKey) {
+      panZoomWindow(e.deltaY)
+      return
+    }
+    const factor = e.deltaY < 0 ? 1.25 : 0.8
+    const time = getTimelineTime(e, timeline)
+    if (timeline === 'detail') {
+      setZoomLevel(zoomLevel * factor, time, (time - zoomWindowStart) / getZoomWindowDuration())
+    } else {
+      setZoomLevel(zoomLevel * factor, time, 0.5)
+    }
+  }
+  mainTimeline.addEventListener('wheel', (e) => onWheel(e, 'main'), { passive: false })
+  detailTimeline.addEventListener('wheel', (e) => onWheel(e, 'detail'), { passive: false })
+
+  zoomSlider.addEventListener('input', () => {
+    setZoomLevel(sliderToZoom(Number(zoomSlider.value)))
+  })
+  zoomFitBtn.addEventListener('click', zoomToSelection)
+
+  magnifierToggle.addEventListener('click', toggleMagnifier)
+
+  const { signal } = lifecycle
+  document.addEventListener('mousemove', (e) => {
+    if (markerDrag) {
+      moveDraggedMarker(e)
+      return
+    }
+    if (!dragMode) return
+    if (dragMode === 'main') {
+      seekToMainTimeline(e)
+    } else if (dragMode === 'window-start' || dragMode === 'window-end') {
+      resizeZoomWindow(e, dragMode === 'window-start' ? 'start' : 'end')
+    } else {
+      seekToDetailTimeline(e)
+    }
+  }, { signal })
+
+  document.addEventListener('mouseup', () => {
+    dragMode = null
+    if (markerDrag) endMarkerDrag()
+  }, { signal })
+
+  document.addEventListener('keydown', (e) => {
+    if (!video || isTypingTarget(e.target)) return
+    const action = matchAction(e, keymap)
+    if (!action) return
+    e.preventDefault()
+    runKeyAction(action)
+  }, { signal })
+
+  window.addEventListener('resize', scheduleTimelineMedia, { signal })
+
+  exportBtn.addEventListener('click', openExport)
+  contactSheetBtn.addEventListener('click', openContactSheet)
+  renderTimelineState()
+}
+
+function runKeyAction(action: KeyAction) {
+  const current = getCurrentFrameTime()
+  switch (action) {
+    case 'addMarker': return addMarker(current)
+    case 'stepBack': return stepFrame(-1)
+    case 'stepForward': return stepFrame(1)
+    case 'shuttleBack': return shuttle(-1)
+    case 'shuttleStop': return togglePlayback()
+    case 'shuttleForward': return shuttle(1)
+    case 'slower': return changePlaybackRate(-1)
+    case 'faster': return changePlaybackRate(1)
+    case 'previousMarker': return jumpToMarker(-1)
+    case 'nextMarker': return jumpToMarker(1)
+    case 'deleteMarker': return deleteMarkerAtFrame(current)
+    case 'deleteSelected': return selectedIds.size > 0 ? removeMarkers([...selectedIds]) : undefined
+    case 'setIn': return setInPoint(current)
+    case 'setOut': return setOutPoint(current)
+    case 'toggleMagnifier': return toggleMagnifier()
+    case 'undo': return undoMarkers()
+    case 'redo': return redoMarkers()
+    case 'showHelp': return openShortcuts()
+  }
+}
+
+function toggleVideoInfo() {
+  const panel = document.getElementById('video-info')!
+  panel.classList.toggle('hidden')
+  if (!panel.classList.contains('hidden') && !videoInfo) inspectVideo()
+}
+
+async function inspectVideo() {
+  if (!videoFile) return
+  const panel = document.getElementById('video-info')!
+  if (isFFmpegBusy) {
+    panel.innerHTML = '<p class="hint">FFmpeg is busy, try again once the current job finishes.</p>'
+    return
+  }
+
+  const file = videoFile
+  isFFmpegBusy = true
+  panel.innerHTML = '<p class="hint">Reading metadata...</p>'
+  let instance: FFmpeg | null = null
+  try {
+    instance = await getFFmpeg()
+    const info = await probeMedia(instance, file)
+    if (videoFile !== file) return
+    videoInfo = info
+    panel.innerHTML = renderMediaInfo(info, null)
+  } catch (err) {
+    if (instance && ffmpeg === instance) {
+      console.error('Probe error:', err)
+      panel.innerHTML = `<p class="media-info-error">${escapeHtml(err instanceof Error ? `Could not probe video: ${err.message}` : 'Could not probe video')}</p>`
+    }
+  } finally {
+    isFFmpegBusy = false
+  }
+}
+
+function openShortcuts() {
+  closeDialog = openKeymapOverlay(keymap, (next) => {
+    keymap = next
+  })
+}
+
+function togglePlayback() {
+  if (!video) return
+  if (shuttleSpeed !== 0 || !video.paused) {
+    setShuttle(0)
+  } else {
+    video.playbackRate = playbackRate
+    video.play()
+  }
+}
+
+// Each press in the same direction doubles the speed; reversing direction
+// starts over at normal speed.
+function shuttle(direction: 1 | -1) {
+  const speed = Math.sign(shuttleSpeed) === direction
+    ? Math.min(MAX_SHUTTLE_SPEED, Math.abs(shuttleSpeed) * 2)
+    : 1
+  setShuttle(direction * speed)
+}
+
+function setShuttle(speed: number) {
+  if (!video) return
+  stopReverse()
+  shuttleSpeed = speed
+  if (speed > 0) {
+    video.playbackRate = speed
+    video.play()
+  } else {
+    video.pause()
+    video.playbackRate = playbackRate
+    if (speed < 0) startReverse(-speed)
+  }
+  renderTimeDisplay()
+}
+
+// Browsers can't play backwards, so reverse shuttle seeks back on every
+// animation frame instead.
+function startReverse(speed: number) {
+  if (!video) return
+  let target = video.currentTime
+  let last = performance.now()
+  const tick = (now: number) => {
+    if (!video) return
+    target -= ((now - last) / 1000) * speed
+    last = now
+    if (target <= 0) {
+      video.currentTime = 0
+      setShuttle(0)
+      return
+    }
+    if (!video.seeking) video.currentTime = target
+    reverseFrame = requestAnimationFrame(tick)
+  }
+  reverseFrame = requestAnimationFrame(tick)
+}
+
+function stopReverse() {
+  if (reverseFrame !== null) {
+    cancelAnimationFrame(reverseFrame)
+    reverseFrame = null
+  }
+}
+
+function changePlaybackRate(direction: 1 | -1) {
+  if (!video) return
+  const index = PLAYBACK_RATES.indexOf(playbackRate)
+  playbackRate = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index + direction))]
+  if (shuttleSpeed === 0) video.playbackRate = playbackRate
+  renderTimeDisplay()
+}
+
+function jumpToMarker(direction: 1 | -1) {
+  if (!video) return
+  const current = getCurrentFrameTime()
+  const halfFrame = 0.5 / frameRate.fps
+  const target = direction > 0
+    ? markers.find(m => m.time > current + halfFrame)
+    : [...markers].reverse().find(m => m.time < current - halfFrame)
+  if (!target) return
+  video.currentTime = frameSeekTime(target.time, frameRate.fps)
+  if (zoomEnabled) keepZoomWindowVisible()
+  renderTimelineState()
+}
+
+function deleteMarkerAtFrame(time: number) {
+  const frame = timeToFrame(time, frameRate.fps)
+  const marker = markers.find(m => timeToFrame(m.time, frameRate.fps) === frame)
+  if (marker) removeMarkers([marker.id])
+}
+
+function toggleMagnifier() {
+  zoomEnabled = !zoomEnabled
+  if (zoomEnabled && video) {
+    const windowDuration = getZoomWindowDuration()
+    setZoomWindowStart(video.currentTime - (windowDuration / 2))
+  } else {
+    renderTimelineState()
+  }
+  renderMagnifierState()
+}
+
+function getTimelineTime(e: MouseEvent, timeline: 'main' | 'detail'): number {
+  if (!video) return 0
+  const element = document.getElementById(`${timeline}-timeline`)!
+  const rect = element.getBoundingClientRect()
+  const percent = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+  return timeline === 'main'
+    ? percent * video.duration
+    : zoomWindowStart + (percent * getZoomWindowDuration())
+}
+
+// Returns true when the press landed on a marker. Modifier clicks toggle the
+// selection; plain presses start a drag that retimes the marker.
+function startMarkerDrag(e: MouseEvent, timeline: 'main' | 'detail'): boolean {
+  const element = (e.target as HTMLElement).closest<HTMLElement>('.marker')
+  const id = element?.dataset.id
+  if (!id) return false
+  e.preventDefault()
+
+  if (e.ctrlKey || e.metaKey || e.shiftKey) {
+    toggleSelected(id)
+    return true
+  }
+  markerDrag = { id, timeline, before: markers.map(m => ({ ...m })), moved: false }
+  return true
+}
+
+function moveDraggedMarker(e: MouseEvent) {
+  if (!markerDrag) return
+  const marker = markers.find(m => m.id === markerDrag!.id)
+  if (!marker) return
+  const time = snapToFrame(getTimelineTime(e, markerDrag.timeline), frameRate.fps)
+  if (time === marker.time) return
+  marker.time = time
+  markerDrag.moved = true
+  renderTimelineMarkers()
+}
+
+function endMarkerDrag() {
+  const drag = markerDrag!
+  markerDrag = null
+  const marker = markers.find(m => m.id === drag.id)
+  if (!marker || !video) return
+
+  if (drag.moved) {
+    history.record({ markers: drag.before, ranges })
+    markers.sort((a, b) => a.time - b.time)
+    markersChanged()
+  }
+  // A press without movement acts as a click and jumps to the marker
+  video.currentTime = frameSeekTime(marker.time, frameRate.fps)
+}
+
+function seekToMainTimeline(e: MouseEvent) {
+  if (!video) return
+  const nextTime = getTimelineTime(e, 'main')
+  video.currentTime = nextTime
+  if (zoomEnabled) {
+    const windowDuration = getZoomWindowDuration()
+    setZoomWindowStart(nextTime - (windowDuration / 2))
+  } else {
+    renderTimelineState()
+  }
+}
+
+function seekToDetailTimeline(e: MouseEvent) {
+  if (!video || !zoomEnabled) return
+  video.currentTime = getTimelineTime(e, 'detail')
+  renderTimelineState()
+}
+
+function createMarkerId(): string {
+  return `marker-${Date.now()}-${++markerSeq}`
+}
+
+function toMarker(data: MarkerData): Marker {
+  return {
+    id: createMarkerId(),
+    time: data.time,
+    label: data.label ?? '',
+    category: data.category ?? DEFAULT_CATEGORY,
+  }
+}
+
+function toMarkerData(marker: Marker): MarkerData {
+  return { time: marker.time, label: marker.label, category: marker.category }
+}
+
+// Every marker edit goes through here so it lands in the undo history
+function editMarkers(edit: () => void) {
+  history.record({ markers, ranges })
+  edit()
+  markers.sort((a, b) => a.time - b.time)
+  markersChanged()
+}
+
+function addMarker(time: number) {
+  editMarkers(() => {
+    markers.push(toMarker({ time }))
+  })
+}
+
+// Adds a batch of generated or imported markers, skipping any that land on a
+// frame that already has one.
+function addMarkers(items: MarkerData[], replace: boolean): number {
+  let added = 0
+  editMarkers(() => {
+    if (replace) markers = []
+    const taken = new Set(markers.map(m => timeToFrame(m.time, frameRate.fps)))
+    for (const item of items) {
+      const frame = timeToFrame(item.time, frameRate.fps)
+      if (taken.has(frame)) continue
+      taken.add(frame)
+      markers.push(toMarker(item))
+      added++
+    }
+  })
+  return added
+}
+
+function removeMarkers(ids: string[]) {
+  const removed = new Set(ids)
+  editMarkers(() => {
+    markers = markers.filter(m => !removed.has(m.id))
+  })
+}
+
+function updateMarkers(ids: string[], changes: Partial<Pick<Marker, 'label' | 'category'>>) {
+  const targets = new Set(ids)
+  editMarkers(() => {
+    markers = markers.map(m => (targets.has(m.id) ? { ...m, ...changes } : m))
+  })
+}
+
+function undoMarkers() {
+  const previous = history.undo({ markers, ranges })
+  if (previous) restoreSnapshot(previous)
+}
+
+function redoMarkers() {
+  const next = history.redo({ markers, ranges })
+  if (next) restoreSnapshot(next)
+}
+
+function restoreSnapshot(snapshot: MarkerSnapshot) {
+  markers = snapshot.markers
+  ranges = snapshot.ranges
+  renderRangeList()
+  markersChanged()
+}
+
+function toggleSelected(id: string) {
+  if (!selectedIds.delete(id)) selectedIds.add(id)
+  renderMarkers()
+}
+
+function markersChanged() {
+  const ids = new Set(markers.map(m => m.id))
+  selectedIds.forEach(id => {
+    if (!ids.has(id)) selectedIds.delete(id)
+  })
+  renderMarkers()
+  persistMarkers()
+}
+
+function renderMarkers() {
+  renderTimelineMarkers()
+  renderMarkerList()
+}
+
+function renderTimelineMarker(marker: Marker, percent: number): string {
+  const selected = selectedIds.has(marker.id) ? ' selected' : ''
+  const title = marker.label ? ` title="${escapeHtml(marker.label)}"` : ''
+  return `<div class="marker${selected}" style="left: ${percent}%; --marker-color: ${getCategory(marker.category).color}" data-id="${marker.id}"${title}></div>`
+}
+
+// Runs on every timeupdate, so it leaves the marker list (and any label
+// being edited there) alone.
+function renderTimelineMarkers() {
+  if (!video) return
+
+  const mainMarkersContainer = document.getElementById('main-markers-container')!
+  const detailMarkersContainer = document.getElementById('detail-markers-container')!
+
+  mainMarkersContainer.innerHTML = markers
+    .map(m => renderTimelineMarker(m, (m.time / video!.duration) * 100))
+    .join('')
+
+  renderTimelineRanges()
+
+  if (zoomEnabled) {
+    const detailWindowDuration = getZoomWindowDuration()
+    const detailWindowEnd = zoomWindowStart + detailWindowDuration
+    detailMarkersContainer.innerHTML = markers
+      .filter(m => m.time >= zoomWindowStart && m.time <= detailWindowEnd)
+      .map(m => renderTimelineMarker(m, ((m.time - zoomWindowStart) / detailWindowDuration) * 100))
+      .join('')
+  } else {
+    detailMarkersContainer.innerHTML = ''
+  }
+}
+
+function setInPoint(time: number) {
+  pendingIn = time
+  renderTimelineMarkers()
+}
+
+// Closes the pending range. Without an in point the range starts at the
+// beginning of the clip, like most editors do.
+function setOutPoint(time: number) {
+  const start = pendingIn ?? 0
+  const end = Math.min(video?.duration ?? time, time + (1 / frameRate.fps))
+  if (end <= start) return
+  pendingIn = null
+  history.record({ markers, ranges })
+  ranges.push({ id: `range-${Date.now()}-${++markerSeq}`, start, end })
+  ranges.sort((a, b) => a.start - b.start)
+  rangesChanged()
+}
+
+function removeRange(id: string) {
+  history.record({ markers, ranges })
+  ranges = ranges.filter(r => r.id !== id)
+  rangesChanged()
+}
+
+function rangesChanged() {
+  renderTimelineMarkers()
+  renderRangeList()
+  persistMarkers()
+}
+
+function renderTimelineRanges() {
+  if (!video) return
+  const mainContainer = document.getElementById('main-ranges-container')!
+  const detailContainer = document.getElementById('detail-ranges-container')!
+  const current = getCurrentFrameTime()
+
+  // A pending in point shows as an open range up to the playhead
+  const spans = ranges.map(r => ({ start: r.start, end: r.end, pending: false }))
+  if (pendingIn !== null) {
+    spans.push({ start: pendingIn, end: Math.max(pendingIn, current), pending: true })
+  }
+
+  const render = (windowStart: number, windowDuration: number) => spans
+    .filter(r => r.end >= windowStart && r.start <= windowStart + windowDuration)
+    .map(r => {
+      const left = Math.max(0, (r.start - windowStart) / windowDuration) * 100
+      const right = Math.min(1, (r.end - windowStart) / windowDuration) * 100
+      return `<div class="range${r.pending ? ' pending' : ''}" style="left: ${left}%; width: ${right - left}%"></div>`
+    })
+    .join('')
+
+  mainContainer.innerHTML = render(0, video.duration)
+  detailContainer.innerHTML = zoomEnabled ? render(zoomWindowStart, getZoomWindowDuration()) : ''
+}
+
+function renderRangeList() {
+  if (!video) return
+  const rangesList = document.getElementById('ranges-list')!
+  rangesList.innerHTML = ranges.length ? `
+    <div class="markers-list-header">
+      <h3>Ranges (${ranges.length})</h3>
+    </div>
+    <ul>
+      ${ranges.map((r, i) => `
+        <li data-id="${r.id}">
+          <span class="marker-time" data-time="${r.start}">${i + 1}. ${formatTime(r.start)} – ${formatTime(r.end)} <span class="marker-frame">${(r.end - r.start).toFixed(2)}s</span></span>
+          <button class="btn" data-action="export-range">Export</button>
+          <button class="btn-remove" data-action="remove-range">&times;</button>
+        </li>
+      `).join('')}
+    </ul>
+  ` : ''
+}
+
+function setupRangeList() {
+  const rangesList = document.getElementById('ranges-list')!
+  rangesList.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement
+    const range = ranges.find(r => r.id === target.closest<HTMLElement>('li[data-id]')?.dataset.id)
+    const time = target.closest<HTMLElement>('.marker-time')?.dataset.time
+    if (time && video) {
+      video.currentTime = frameSeekTime(parseFloat(time), frameRate.fps)
+    } else if (target.closest('[data-action="export-range"]') && range) {
+      const index = ranges.indexOf(range) + 1
+      closeDialog = openClipDialog(`Range ${index}`, settings => exportClip(range, settings))
+    } else if (target.closest('[data-action="remove-range"]') && range) {
+      removeRange(range.id)
+    }
+  })
+
+  // Terminating is the only way to stop a running exec
+  document.getElementById('export-cancel')!.addEventListener('click', () => {
+    ffmpeg?.terminate()
+    ffmpeg = null
+  })
+}
+
+async function getFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpeg) {
+    const { signal } = lifecycle
+    const instance = await createFFmpeg()
+    // The tool may have been left while the core was loading
+    if (signal.aborted) instance.terminate()
+    signal.throwIfAborted()
+    ffmpeg = instance
+  }
+  return ffmpeg
+}
+
+async function exportClip(range: ClipRange, settings: ClipSettings) {
+  if (!video || !videoFile || isFFmpegBusy) return
+
+  const baseName = getVideoBaseName()
+  const name = `${baseName}_${formatTimeFilename(range.start)}-${formatTimeFilename(range.end)}`
+  const writeToDir = getOutputDir() !== null
+  const isSequence = settings.kind === 'frames'
+  const zip = isSequence && !writeToDir ? await openZipDownload(`${name}_frames.zip`) : null
+  if (isSequence && !writeToDir && !zip) return
+
+  const exportProgress = document.getElementById('export-progress')!
+  const progressLabel = document.getElementById('export-progress-label')!
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+  const cancelBtn = document.getElementById('export-cancel')!
+  const file = videoFile
+  isFFmpegBusy = true
+  progressLabel.textContent = 'Loading FFmpeg...'
+  exportProgress.classList.remove('hidden')
+  cancelBtn.classList.remove('hidden')
+
+  let instance: FFmpeg | null = null
+  try {
+    instance = await getFFmpeg()
+    const input = await mountInputFile(instance, file)
+    const clip = buildClipArgs(input.path, file, range, settings)
+    try {
+      if (isSequence) await instance.createDir(clip.output)
+
+      progressLabel.textContent = 'Exporting range...'
+      const exitCode = await execWithProgress(instance, clip.args, (ratio) => {
+        progressBar.value = ratio * 100
+      })
+      if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`)
+
+      if (isSequence) {
+        const entries = (await instance.listDir(clip.output)).filter(entry => !entry.isDir)
+        for (const entry of entries) {
+          const path = `${clip.output}/${entry.name}`
+          const blob = await readOutputBlob(instance, path, clip.mime)
+          if (zip) {
+            await zip.add({ path: entry.name, data: blob })
+          } else {
+            await writeToOutputDir(`${name}_frames/${entry.name}`, blob)
+          }
+        }
+        await instance.deleteDir(clip.output)
+        await zip?.close()
+      } else {
+        const blob = await readOutputBlob(instance, clip.output, clip.mime)
+        if (writeToDir) {
+          await writeToOutputDir(`${baseName}_clips/${name}${clip.ext}`, blob)
+        } else {
+          const a = document.createElement('a')
+          a.href = URL.createObjectURL(blob)
+          a.download = `${name}${clip.ext}`
+          a.click()
+          URL.revokeObjectURL(a.href)
+        }
+      }
+    } finally {
+      if (ffmpeg === instance) {
+        await removeOutput(instance, clip.output)
+        await input.unmount()
+      }
+    }
+  } catch (err) {
+    await zip?.abort()
+    // A terminated instance means the user cancelled
+    if (instance && ffmpeg === instance) {
+      console.error('Clip export error:', err)
+      alert(err instanceof Error ? `Failed to export range: ${err.message}` : 'Failed to export range.')
+    }
+  } finally {
+    isFFmpegBusy = false
+    exportProgress.classList.add('hidden')
+    cancelBtn.classList.add('hidden')
+    progressLabel.textContent = 'Exporting frames...'
+    progressBar.value = 0
+  }
+}
+
+function renderCategoryOptions(selected?: MarkerCategory): string {
+  return MARKER_CATEGORIES.map(c => `<option value="${c.id}"${c.id === selected ? ' selected' : ''}>${c.label}</option>`).join('')
+}
+
+function renderMarkerList() {
+  if (!video) return
+  const markersList = document.getElementById('markers-list')!
+  const allSelected = markers.length > 0 && selectedIds.size === markers.length
+
+  markersList.innerHTML = markers.length ? `
+    <div class="markers-list-header">
+      <h3>Markers (${markers.length})</h3>
+      <label class="marker-select-all">
+        <input type="checkbox" data-action="select-all" ${allSelected ? 'checked' : ''} /> Select all
+      </label>
+      ${selectedIds.size > 0 ? `
+        <select data-action="bulk-category">
+          <option value="">Set color (${selectedIds.size})</option>
+          ${renderCategoryOptions()}
+        </select>
+        <button class="btn" data-action="delete-selected">Delete ${selectedIds.size}</button>
+      ` : ''}
+    </div>
+    <ul>
+      ${markers.map((m, i) => `
+        <li class="${selectedIds.has(m.id) ? 'selected' : ''}" data-id="${m.id}" style="--marker-color: ${getCategory(m.category).color}">
+          <input type="checkbox" data-action="select" ${selectedIds.has(m.id) ? 'checked' : ''} />
+          <span class="marker-time" data-time="${m.time}">${i + 1}. ${formatTime(m.time)} <span class="marker-frame">f${timeToFrame(m.time, frameRate.fps)}</span></span>
+          <input type="text" class="marker-label" data-action="label" placeholder="Label" value="${escapeHtml(m.label)}" />
+          <select class="marker-category" data-action="category">${renderCategoryOptions(m.category)}</select>
+          <button class="btn-remove" data-action="remove">&times;</button>
+        </li>
+      `).join('')}
+    </ul>
+  ` : ''
+}
+
+// The list is re-rendered wholesale, so its events are delegated from the
+// container once.
+function setupMarkerList() {
+  const markersList = document.getElementById('markers-list')!
+
+  markersList.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement
+    const id = target.closest<HTMLElement>('li[data-id]')?.dataset.id
+    const time = target.closest<HTMLElement>('.marker-time')?.dataset.time
+    if (time && video) {
+      video.currentTime = frameSeekTime(parseFloat(time), frameRate.fps)
+    } else if (target.closest('[data-action="remove"]') && id) {
+      removeMarkers([id])
+    } else if (target.closest('[data-action="delete-selected"]')) {
+      removeMarkers([...selectedIds])
+    }
+  })
+
+  markersList.addEventListener('change', (e) => {
+    const target = e.target as HTMLInputElement | HTMLSelectElement
+    const id = target.closest<HTMLElement>('li[data-id]')?.dataset.id
+    const action = target.dataset.action
+
+    if (action === 'select' && id) {
+      toggleSelected(id)
+    } else if (action === 'select-all') {
+      selectedIds = (target as HTMLInputElement).checked ? new Set(markers.map(m => m.id)) : new Set()
+      renderMarkers()
+    } else if (action === 'label' && id) {
+      updateMarkers([id], { label: target.value.trim() })
+    } else if (action === 'category' && id) {
+      updateMarkers([id], { category: target.value as MarkerCategory })
+    } else if (action === 'bulk-category' && target.value) {
+      updateMarkers([...selectedIds], { category: target.value as MarkerCategory })
+    }
+  })
+}
+
+function setupGenerator() {
+  const modeSelect = document.getElementById('generator-mode') as HTMLSelectElement
+  const valueInput = document.getElementById('generator-value') as HTMLInputElement
+  const valueLabel = document.getElementById('generator-value-label')!
+  const startInput = document.getElementById('generator-start') as HTMLInputElement
+  const endInput = document.getElementById('generator-end') as HTMLInputElement
+  const useWindowBtn = document.getElementById('generator-use-window')!
+  const runBtn = document.getElementById('generator-run')!
+  const cancelBtn = document.getElementById('generator-cancel')!
+
+  modeSelect.addEventListener('change', () => {
+    const mode = GENERATOR_MODES.find(m => m.id === modeSelect.value)!
+    valueLabel.textContent = mode.valueLabel
+    valueInput.step = String(mode.step)
+    valueInput.value = String(mode.defaultValue)
+  })
+
+  useWindowBtn.addEventListener('click', () => {
+    if (!video || !zoomEnabled) return
+    startInput.value = zoomWindowStart.toFixed(2)
+    endInput.value = (zoomWindowStart + getZoomWindowDuration()).toFixed(2)
+  })
+
+  runBtn.addEventListener('click', () => {
+    generateMarkers(modeSelect.value as GeneratorMode, Number(valueInput.value))
+  })
+
+  // Terminating is the only way to stop a running exec; a fresh instance is
+  // loaded on the next run.
+  cancelBtn.addEventListener('click', () => {
+    ffmpeg?.terminate()
+    ffmpeg = null
+  })
+}
+
+function setupMarkerFiles() {
+  const formatSelect = document.getElementById('marker-file-format') as HTMLSelectElement
+  const saveBtn = document.getElementById('marker-save-btn')!
+  const loadBtn = document.getElementById('marker-load-btn')!
+  const fileInput = document.getElementById('marker-file-input') as HTMLInputElement
+
+  saveBtn.addEventListener('click', () => saveMarkerFile(formatSelect.value as MarkerFileFormat))
+  loadBtn.addEventListener('click', () => fileInput.click())
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0]
+    fileInput.value = ''
+    if (file) await loadMarkerFile(file)
+  })
+}
+
+function saveMarkerFile(formatId: MarkerFileFormat) {
+  if (!video || markers.length === 0) {
+    alert('Add at least one marker first')
+    return
+  }
+  const format = MARKER_FILE_FORMATS.find(f => f.id === formatId) ?? MARKER_FILE_FORMATS[0]
+  const text = serializeMarkers(format.id, markers, {
+    video: videoFileName,
+    fps: frameRate.fps,
+    duration: video.duration,
+  })
+  const a = document.createElement('a')
+  a.href = URL.createObjectURL(new Blob([text], { type: format.mime }))
+  a.download = `${getVideoBaseName()}_markers${format.ext}`
+  a.click()
+  URL.revokeObjectURL(a.href)
+}
+
+async function loadMarkerFile(file: File) {
+  if (!video) return
+  let imported: MarkerData[]
+  try {
+    imported = parseMarkerFile(file.name, await file.text(), frameRate.fps)
+      .filter(m => m.time >= 0 && m.time <= video!.duration)
+      .map(m => ({ ...m, time: snapToFrame(m.time, frameRate.fps) }))
+  } catch (err) {
+    console.error('Marker import error:', err)
+    alert(err instanceof Error ? `Failed to read markers: ${err.message}` : 'Failed to read markers.')
+    return
+  }
+  if (imported.length === 0) {
+    alert('No markers within this video were found in the file')
+    return
+  }
+  const replace = markers.length > 0 && confirm(`Replace the current ${markers.length} markers? Cancel adds the imported ones to them.`)
+  addMarkers(imported, replace)
+}
+
+function getGeneratorRange(): [number, number] {
+  const duration = video?.duration ?? 0
+  const startValue = (document.getElementById('generator-start') as HTMLInputElement).value
+  const endValue = (document.getElementById('generator-end') as HTMLInputElement).value
+  const start = startValue === '' ? 0 : Math.max(0, Math.min(duration, Number(startValue)))
+  const end = endValue === '' ? duration : Math.max(0, Math.min(duration, Number(endValue)))
+  return [start, end]
+}
+
+async function generateMarkers(mode: GeneratorMode, value: number) {
+  if (!video || !videoFile || isFFmpegBusy) return
+  const status = document.getElementById('generator-status')!
+  const [start, end] = getGeneratorRange()
+
+  if (!Number.isFinite(value) || value <= 0) {
+    status.textContent = 'Enter a value greater than zero'
+    return
+  }
+  if (end <= start) {
+    status.textContent = 'The range end must be after its start'
+    return
+  }
+
+  let times: number[]
+  if (mode === 'seconds') {
+    times = intervalTimes(start, end, value)
+  } else if (mode === 'frames') {
+    times = intervalTimes(start, end, Math.round(value) / frameRate.fps)
+  } else if (mode === 'count') {
+    times = evenlySpacedTimes(start, end, Math.round(value))
+  } else {
+    const result = await runSceneDetection(start, end, Math.min(1, value))
+    if (!result) return
+    times = result
+  }
+
+  times = times.map(t => snapToFrame(t, frameRate.fps))
+  if (times.length > LARGE_MARKER_BATCH && !confirm(`This adds ${times.length} markers. Continue?`)) {
+    status.textContent = ''
+    return
+  }
+
+  const replace = (document.getElementById('generator-replace') as HTMLInputElement).checked
+  const added = addMarkers(times.map(time => ({ time })), replace)
+  status.textContent = `Added ${added} marker${added === 1 ? '' : 's'}`
+}
+
+async function runSceneDetection(start: number, end: number, threshold: number): Promise<number[] | null> {
+  const status = document.getElementById('generator-status')!
+  const runBtn = document.getElementById('generator-run') as HTMLButtonElement
+  const cancelBtn = document.getElementById('generator-cancel')!
+  const file = videoFile!
+
+  isFFmpegBusy = true
+  runBtn.disabled = true
+  cancelBtn.classList.remove('hidden')
+
+  try {
+    if (!ffmpeg) status.textContent = 'Loading FFmpeg...'
+    const instance = await getFFmpeg()
+    status.textContent = 'Detecting scene changes...'
+    return await detectSceneChanges(instance, file, start, end, threshold, (ratio) => {
+      status.textContent = `Detecting scene changes... ${Math.round(ratio * 100)}%`
+    })
+  } catch (err) {
+    if (!ffmpeg) {
+      status.textContent = 'Cancelled'
+    } else {
+      console.error('Scene detection error:', err)
+      status.textContent = err instanceof Error ? `Scene detection failed: ${err.message}` : 'Scene detection failed'
+    }
+    return null
+  } finally {
+    isFFmpegBusy = false
+    runBtn.disabled = false
+    cancelBtn.classList.add('hidden')
+  }
+}
+
+function getMaxZoomLevel(): number {
+  if (!video || !video.duration) return 1
+  return Math.max(1, video.duration / (MIN_ZOOM_WINDOW_FRAMES / frameRate.fps))
+}
+
+// The slider is logarithmic so every step feels like the same amount of zoom
+function sliderToZoom(value: number): number {
+  return getMaxZoomLevel() ** (value / SLIDER_STEPS)
+}
+
+function zoomToSlider(level: number): number {
+  const max = getMaxZoomLevel()
+  return max > 1 ? Math.round((Math.log(level) / Math.log(max)) * SLIDER_STEPS) : 0
+}
+
+// Changes the zoom while keeping anchorTime at the same relative position
+// (anchorRatio, 0–1) inside the detail window. Defaults to the window center.
+function setZoomLevel(level: number, anchorTime?: number, anchorRatio = 0.5) {
+  if (!video) return
+  const anchor = anchorTime ?? zoomWindowStart + (getZoomWindowDuration() / 2)
+  zoomLevel = Math.max(1, Math.min(getMaxZoomLevel(), level))
+  setZoomWindowStart(anchor - (getZoomWindowDuration() * anchorRatio))
+  renderZoomControls()
+}
+
+function zoomToSpan(start: number, end: number) {
+  if (!video) return
+  const padding = Math.max((end - start) * 0.05, MIN_ZOOM_WINDOW_FRAMES / frameRate.fps / 2)
+  zoomLevel = Math.max(1, Math.min(getMaxZoomLevel(), video.duration / ((end - start) + (padding * 2))))
+  setZoomWindowStart(start - padding)
+  renderZoomControls()
+}
+
+function zoomToSelection() {
+  if (!video) return
+  if (!zoomEnabled) {
+    zoomEnabled = true
+    renderMagnifierState()
+  }
+  const selected = markers.filter(m => selectedIds.has(m.id))
+  if (selected.length > 0) {
+    zoomToSpan(selected[0].time, selected[selected.length - 1].time)
+    return
+  }
+  const current = getCurrentFrameTime()
+  const range = ranges.find(r => current >= r.start && current < r.end)
+  if (range) zoomToSpan(range.start, range.end)
+}
+
+// Dragging an edge of the zoom window on the main timeline resizes it while
+// the opposite edge stays put.
+function resizeZoomWindow(e: MouseEvent, edge: 'start' | 'end') {
+  if (!video) return
+  const time = getTimelineTime(e, 'main')
+  const minDuration = video.duration / getMaxZoomLevel()
+  const windowEnd = zoomWindowStart + getZoomWindowDuration()
+
+  if (edge === 'start') {
+    const start = Math.max(0, Math.min(windowEnd - minDuration, time))
+    zoomLevel = video.duration / (windowEnd - start)
+    zoomWindowStart = start
+  } else {
+    const end = Math.min(video.duration, Math.max(zoomWindowStart + minDuration, time))
+    zoomLevel = video.duration / (end - zoomWindowStart)
+  }
+  zoomLevel = Math.max(1, Math.min(getMaxZoomLevel(), zoomLevel))
+  renderZoomControls()
+  renderTimelineState()
+}
+
+function renderZoomControls() {
+  const slider = document.getElementById('zoom-slider') as HTMLInputElement | null
+  const value = document.getElementById('zoom-value')
+  if (!slider || !value) return
+  slider.value = String(zoomToSlider(zoomLevel))
+  const windowDuration = getZoomWindowDuration()
+  const frames = Math.round(windowDuration * frameRate.fps)
+  value.textContent = frames <= 300 ? `${frames} frames` : `${formatTime(windowDuration)} window`
+}
+
+function renderMagnifierState() {
+  const timelineContainer = document.querySelector('.timeline-container')
+  const magnifierToggle = document.getElementById('magnifier-toggle')
+  if (!timelineContainer || !magnifierToggle) return
+
+  timelineContainer.classList.toggle('zoom-disabled', !zoomEnabled)
+  magnifierToggle.textContent = zoomEnabled ? 'Magnifier On' : 'Magnifier Off'
+}
+
+function getZoomWindowDuration(): number {
+  if (!video || !video.duration) return 0
+  return video.duration / zoomLevel
+}
+
+function getMaxZoomWindowStart(): number {
+  if (!video) return 0
+  return Math.max(0, video.duration - getZoomWindowDuration())
+}
+
+function setZoomWindowStart(nextStart: number) {
+  zoomWindowStart = Math.max(0, Math.min(getMaxZoomWindowStart(), nextStart))
+  renderTimelineState()
+}
+
+function panZoomWindow(delta: number) {
+  const direction = delta > 0 ? 1 : -1
+  const panAmount = getZoomWindowDuration() * 0.08 * direction
+  setZoomWindowStart(zoomWindowStart + panAmount)
+}
+
+function keepZoomWindowVisible() {
+  if (!video) return
+  const windowDuration = getZoomWindowDuration()
+  const windowEnd = zoomWindowStart + windowDuration
+
+  if (video.currentTime < zoomWindowStart) {
+    zoomWindowStart = video.currentTime
+  } else if (video.currentTime > windowEnd) {
+    zoomWindowStart = video.currentTime - windowDuration
+  }
+
+  zoomWindowStart = Math.max(0, Math.min(getMaxZoomWindowStart(), zoomWindowStart))
+}
+
+function renderTimelineState() {
+  if (!video || !video.duration) return
+
+  const mainProgress = document.getElementById('main-progress') as HTMLDivElement | null
+  const detailProgress = document.getElementById('detail-progress') as HTMLDivElement | null
+  const zoomWindow = document.getElementById('zoom-window') as HTMLDivElement | null
+  if (!mainProgress || !detailProgress || !zoomWindow) return
+
+  const mainPercent = (video.currentTime / video.duration) * 100
+  mainProgress.style.width = `${mainPercent}%`
+
+  if (zoomEnabled) {
+    const windowDuration = getZoomWindowDuration()
+    const detailPercent = ((video.currentTime - zoomWindowStart) / windowDuration) * 100
+    detailProgress.style.width = `${Math.max(0, Math.min(100, detailPercent))}%`
+
+    const windowLeft = (zoomWindowStart / video.duration) * 100
+    const windowWidth = (windowDuration / video.duration) * 100
+    zoomWindow.style.left = `${windowLeft}%`
+    zoomWindow.style.width = `${windowWidth}%`
+  } else {
+    detailProgress.style.width = '0%'
+    zoomWindow.style.width = '0%'
+  }
+
+  renderTimelineMarkers()
+  scheduleTimelineMedia()
+}
+
+// Filmstrips and waveforms only change with the zoom window or layout, not
+// on every timeupdate, so redraws are coalesced and skipped when unchanged.
+function scheduleTimelineMedia() {
+  if (timelineMediaFrame !== null) return
+  timelineMediaFrame = requestAnimationFrame(() => {
+    timelineMediaFrame = null
+    renderTimelineMedia()
+  })
+}
+
+function renderTimelineMedia() {
+  if (!video || !video.duration || !thumbnailer) return
+  const mainFilmstrip = document.getElementById('main-filmstrip') as HTMLCanvasElement | null
+  const detailFilmstrip = document.getElementById('detail-filmstrip') as HTMLCanvasElement | null
+  const mainWaveform = document.getElementById('main-waveform') as HTMLCanvasElement | null
+  const detailWaveform = document.getElementById('detail-waveform') as HTMLCanvasElement | null
+  if (!mainFilmstrip || !detailFilmstrip || !mainWaveform || !detailWaveform) return
+
+  const ruler = document.getElementById('detail-ruler') as HTMLCanvasElement | null
+  if (!ruler) return
+
+  const key = [zoomEnabled, zoomWindowStart, zoomLevel, frameRate.fps, mainFilmstrip.clientWidth, detailFilmstrip.clientWidth].join(':')
+  if (key === timelineMediaKey) return
+  timelineMediaKey = key
+
+  const aspect = video.videoWidth / video.videoHeight || 16 / 9
+  drawFilmstrip(mainFilmstrip, thumbnailer, 'main', 0, video.duration, aspect, 0)
+  if (zoomEnabled) {
+    drawFilmstrip(detailFilmstrip, thumbnailer, 'detail', zoomWindowStart, getZoomWindowDuration(), aspect, 1)
+    drawTimeRuler(ruler, zoomWindowStart, getZoomWindowDuration(), frameRate.fps)
+  }
+
+  mainWaveform.classList.toggle('hidden', !waveform)
+  detailWaveform.classList.toggle('hidden', !waveform)
+  if (waveform) {
+    drawWaveform(mainWaveform, waveform, 0, video.duration)
+    if (zoomEnabled) drawWaveform(detailWaveform, waveform, zoomWindowStart, getZoomWindowDuration())
+  }
+}
+
+function showTooltip(e: MouseEvent, timeline: 'main' | 'detail') {
+  if (!video || !video.duration) return
+  const tooltip = document.getElementById('timeline-tooltip')!
+  const container = tooltip.parentElement!
+  const target = document.getElementById(`${timeline}-timeline`)!
+  const time = snapToFrame(getTimelineTime(e, timeline), frameRate.fps)
+
+  const containerRect = container.getBoundingClientRect()
+  const targetRect = target.getBoundingClientRect()
+  tooltip.classList.remove('hidden')
+  tooltip.querySelector('canvas')!.style.aspectRatio = `${video.videoWidth} / ${video.videoHeight}`
+  tooltip.style.left = `${Math.max(0, Math.min(containerRect.width - tooltip.offsetWidth, e.clientX - containerRect.left - (tooltip.offsetWidth / 2)))}px`
+  tooltip.style.top = `${targetRect.top - containerRect.top - tooltip.offsetHeight - 6}px`
+  tooltip.querySelector('span')!.textContent = `${formatPreciseTime(time)} · f${timeToFrame(time, frameRate.fps)}`
+
+  if (time !== hoverTime) {
+    hoverTime = time
+    thumbnailer?.request('hover', [time], 2)
+    renderTooltipThumbnail(time)
+  }
+}
+
+function hideTooltip() {
+  hoverTime = null
+  document.getElementById('timeline-tooltip')?.classList.add('hidden')
+}
+
+function renderTooltipThumbnail(time: number) {
+  const canvas = document.querySelector<HTMLCanvasElement>('#timeline-tooltip canvas')
+  const ctx = canvas && fitCanvas(canvas)
+  if (!canvas || !ctx) return
+  const bitmap = thumbnailer?.get(time)
+  // Keep the previous frame up until the new one arrives to avoid flicker
+  if (bitmap) ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+}
+
+function openExport() {
+  if (!video || markers.length === 0) {
+    alert('Add at least one marker first')
+    return
+  }
+
+  closeDialog = openExportDialog({
+    ...getSourceSize(),
+    preview: {
+      video: getVideoBaseName(),
+      index: 1,
+      time: markers[0].time,
+      frame: timeToFrame(markers[0].time, frameRate.fps),
+      label: markers[0].label,
+      category: markers[0].category,
+    },
+  }, exportFrames)
+}
+
+// Proxies are downscaled, so export geometry follows the original instead
+function getSourceSize(): { width: number; height: number } {
+  return sourceSize ?? { width: video?.videoWidth ?? 0, height: video?.videoHeight ?? 0 }
+}
+
+function getVideoBaseName(): string {
+  return videoFileName.replace(/\.[^.]+$/, '')
+}
+
+async function exportFrames(settings: ExportSettings) {
+  if (!video || markers.length === 0) return
+
+  const format = getFormat(settings)
+  // Checked before the ZIP is started so an unsupported format leaves nothing behind
+  if (!(await getEncodableFormats()).has(format.id)) {
+    alert(`${format.label} encoding is not supported by this browser`)
+    return
+  }
+
+  const baseName = getVideoBaseName()
+  const writeToDir = getOutputDir() !== null
+  const zip = writeToDir ? null : await openZipDownload(`${baseName}_frames.zip`)
+  if (!writeToDir && !zip) return
+
+  const exportProgress = document.getElementById('export-progress')!
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+  exportProgress.classList.remove('hidden')
+
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')!
+  const size = getSourceSize()
+  const { sx, sy, sw, sh, width, height } = computeFrameGeometry(settings, size.width, size.height)
+
+  canvas.width = width
+  canvas.height = height
+
+  try {
+    await captureMarkerFrames(async (source, marker, i) => {
+      ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height)
+
+      const blob = await new Promise<Blob>((resolve) => {
+        canvas.toBlob(b => resolve(b!), format.mime, settings.quality / 100)
+      })
+      // Browsers silently fall back to PNG for types they cannot encode
+      if (blob.type !== format.mime) {
+        throw new Error(`${format.label} encoding is not supported by this browser`)
+      }
+
+      const path = expandFilename(settings.filenameTemplate, {
+        video: baseName,
+        index: i + 1,
+        time: marker.time,
+        frame: timeToFrame(marker.time, frameRate.fps),
+        label: marker.label,
+        category: marker.category,
+      }, settings)
+      if (zip) {
+        await zip.add({ path, data: blob })
+      } else {
+        await writeToOutputDir(`${baseName}_frames/${path}`, blob)
+      }
+    })
+
+    await zip?.close()
+  } catch (err) {
+    await zip?.abort()
+    if (isAbortError(err)) return
+    console.error('Export error:', err)
+    alert(err instanceof Error ? `Failed to export frames: ${err.message}` : 'Failed to export frames.')
+  } finally {
+    exportProgress.classList.add('hidden')
+    progressBar.value = 0
+  }
+}
+
+// Seeks to every marker in turn and hands the frame on screen to onFrame,
+// advancing the export progress bar as it goes. Unmounting rejects with the
+// abort reason, since an emptied video never fires seeked.
+async function captureMarkerFrames(onFrame: (source: CanvasImageSource, marker: Marker, index: number) => Promise<void>) {
+  if (!video) return
+  if (isProxy) return captureOriginalFrames(onFrame)
+  const source = video
+  const { signal } = lifecycle
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+
+  for (let i = 0; i < markers.length; i++) {
+    signal.throwIfAborted()
+    const marker = markers[i]
+    source.currentTime = frameSeekTime(marker.time, frameRate.fps)
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason)
+      signal.addEventListener('abort', onAbort, { once: true })
+      source.onseeked = () => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+      }
+    })
+
+    await onFrame(source, marker, i)
+    progressBar.value = ((i + 1) / markers.length) * 100
+  }
+}
+
+// The proxy is only good enough for scrubbing, so each marked frame is decoded
+// from the original file instead. Cancelling rejects with an AbortError.
+async function captureOriginalFrames(onFrame: (source: CanvasImageSource, marker: Marker, index: number) => Promise<void>) {
+  if (!videoFile) return
+  if (isFFmpegBusy) throw new Error('FFmpeg is busy with another job')
+  const file = videoFile
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+  const cancelBtn = document.getElementById('export-cancel')!
+  isFFmpegBusy = true
+  cancelBtn.classList.remove('hidden')
+
+  let instance: FFmpeg | null = null
+  try {
+    instance = await getFFmpeg()
+    const input = await mountInputFile(instance, file)
+    try {
+      for (let i = 0; i < markers.length; i++) {
+        const marker = markers[i]
+        const frame = await extractFrame(instance, input.path, marker.time, frameRate.fps)
+        try {
+          await onFrame(frame, marker, i)
+        } finally {
+          frame.close()
+        }
+        progressBar.value = ((i + 1) / markers.length) * 100
+      }
+    } finally {
+      if (ffmpeg === instance) await input.unmount()
+    }
+  } catch (err) {
+    if (instance && ffmpeg !== instance) throw new DOMException('Export cancelled', 'AbortError')
+    throw err
+  } finally {
+    isFFmpegBusy = false
+    cancelBtn.classList.add('hidden')
+  }
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+function openContactSheet() {
+  if (!video || markers.length === 0) {
+    alert('Add at least one marker first')
+    return
+  }
+  closeDialog = openContactSheetDialog(exportContactSheet)
+}
+
+async function exportContactSheet(settings: ContactSheetSettings) {
+  if (!video || markers.length === 0) return
+
+  const exportProgress = document.getElementById('export-progress')!
+  const progressLabel = document.getElementById('export-progress-label')!
+  const progressBar = document.getElementById('progress-bar') as HTMLProgressElement
+  progressLabel.textContent = 'Building contact sheet...'
+  exportProgress.classList.remove('hidden')
+
+  // Frames are cropped the same way the frame export crops them
+  const size = getSourceSize()
+  const crop = computeFrameGeometry(loadExportSettings(), size.width, size.height)
+  const sheet = createContactSheet(settings, crop.sw / crop.sh, markers.length, markers.some(m => m.label))
+  const output = getSheetOutput(settings)
+
+  try {
+    await captureMarkerFrames(async (source, marker, i) => {
+      await sheet.add(source, crop, {
+        index: i + 1,
+        timecode: formatPreciseTime(marker.time),
+        label: marker.label,
+      })
+    })
+    const blob = await sheet.finish()
+    const filename = `${getVideoBaseName()}_contact-sheet${output.ext}`
+
+    if (getOutputDir()) {
+      await writeToOutputDir(filename, blob)
+    } else {
+      const a = document.createElement('a')
+      a.href = URL.createObjectURL(blob)
+      a.download = filename
+      a.click()
+      URL.revokeObjectURL(a.href)
+    }
+  } catch (err) {
+    if (isAbortError(err)) return
+    console.error('Contact sheet error:', err)
+    alert(err instanceof Error ? `Failed to build contact sheet: ${err.message}` : 'Failed to build contact sheet.')
+  } finally {
+    exportProgress.classList.add('hidden')
+    progressLabel.textContent = 'Exporting frames...'
+    progressBar.value = 0
+  }
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${String(secs).padStart(2, '0')}`
+}
+
+function formatPreciseTime(seconds: number): string {
+  const ms = Math.floor((seconds % 1) * 1000)
+  return `${formatTime(seconds)}.${String(ms).padStart(3, '0')}`
+}
@@ -0,0 +1,201 @@
+import { openModal } from '../../lib/dialog'
+import { loadSettings, saveSettings } from '../../lib/storage'
+
+export type KeyAction =
+  | 'addMarker'
+  | 'stepBack'
+  | 'stepForward'
+  | 'shuttleBack'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'slower'
+  | 'faster'
+  | 'previousMarker'
+  | 'nextMarker'
+  | 'deleteMarker'
+  | 'deleteSelected'
+  | 'setIn'
+  | 'setOut'
+  | 'toggleMagnifier'
+  | 'undo'
+  | 'redo'
+  | 'showHelp'
+
+// Bindings are KeyboardEvent.code values with optional Ctrl/Alt/Shift
+// prefixes, e.g. "Ctrl+Shift+KeyZ". Cmd on macOS counts as Ctrl.
+export type Keymap = Record<KeyAction, string[]>
+
+const STORAGE_KEY = 'frames-extractor:keymap'
+
+export const KEY_ACTIONS: { id: KeyAction; label: string }[] = [
+  { id: 'addMarker', label: 'Add marker on current frame' },
+  { id: 'stepBack', label: 'Step one frame back' },
+  { id: 'stepForward', label: 'Step one frame forward' },
+  { id: 'shuttleBack', label: 'Shuttle backward (repeat to speed up)' },
+  { id: 'shuttleStop', label: 'Play / pause' },
+  { id: 'shuttleForward', label: 'Shuttle forward (repeat to speed up)' },
+  { id: 'slower', label: 'Decrease playback rate' },
+  { id: 'faster', label: 'Increase playback rate' },
+  { id: 'previousMarker', label: 'Jump to previous marker' },
+  { id: 'nextMarker', label: 'Jump to next marker' },
+  { id: 'deleteMarker', label: 'Delete marker under playhead' },
+  { id: 'deleteSelected', label: 'Delete selected markers' },
+  { id: 'setIn', label: 'Set range in point' },
+  { id: 'setOut', label: 'Set range out point' },
+  { id: 'toggleMagnifier', label: 'Toggle magnifier' },
+  { id: 'undo', label: 'Undo marker or range edit' },
+  { id: 'redo', label: 'Redo marker or range edit' },
+  { id: 'showHelp', label: 'Show keyboard shortcuts' },
+]
+
+export const DEFAULT_KEYMAP: Keymap = {
+  addMarker: ['Space'],
+  stepBack: ['ArrowLeft'],
+  stepForward: ['ArrowRight'],
+  shuttleBack: ['KeyJ'],
+  shuttleStop: ['KeyK'],
+  shuttleForward: ['KeyL'],
+  slower: ['BracketLeft'],
+  faster: ['BracketRight'],
+  previousMarker: ['ArrowUp'],
+  nextMarker: ['ArrowDown'],
+  deleteMarker: ['KeyX'],
+  deleteSelected: ['Delete', 'Backspace'],
+  setIn: ['KeyI'],
+  setOut: ['KeyO'],
+  toggleMagnifier: ['KeyM'],
+  undo: ['Ctrl+KeyZ'],
+  redo: ['Ctrl+Shift+KeyZ'],
+  showHelp: ['Shift+Slash'],
+}
+
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'ShiftLeft', 'ShiftRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight']
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  'Shift+Slash': '?',
+  Comma: ',',
+  Period: '.',
+  Minus: '-',
+  Equal: '=',
+}
+
+export function loadKeymap(): Keymap {
+  return loadSettings(STORAGE_KEY, DEFAULT_KEYMAP)
+}
+
+export function saveKeymap(keymap: Keymap) {
+  saveSettings(STORAGE_KEY, keymap)
+}
+
+export function eventToBinding(e: KeyboardEvent): string {
+  return [
+    e.ctrlKey || e.metaKey ? 'Ctrl' : '',
+    e.altKey ? 'Alt' : '',
+    e.shiftKey ? 'Shift' : '',
+    e.code,
+  ].filter(Boolean).join('+')
+}
+
+export function matchAction(e: KeyboardEvent, keymap: Keymap): KeyAction | null {
+  const binding = eventToBinding(e)
+  return KEY_ACTIONS.find(a => keymap[a.id].includes(binding))?.id ?? null
+}
+
+// Shortcuts must never fire while the user is typing into a form field
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'range', 'button', 'submit', 'color'].includes(target.type)
+  }
+  return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+}
+
+export function formatBinding(binding: string): string {
+  if (KEY_NAMES[binding]) return KEY_NAMES[binding]
+  const parts = binding.split('+')
+  const code = parts.pop()!
+  const key = KEY_NAMES[code] ?? code.replace(/^Key|^Digit/, '')
+  return [...parts, key].join('+')
+}
+
+export function openKeymapOverlay(keymap: Keymap, onChange: (keymap: Keymap) => void) {
+  let current: Keymap = { ...keymap }
+  let recording: KeyAction | null = null
+
+  // While recording, every key (Escape included) goes to the binding
+  const onKeydown = (e: KeyboardEvent) => {
+    if (!recording) return false
+    e.preventDefault()
+    if (MODIFIER_CODES.includes(e.code)) return true
+    if (e.key === 'Escape') {
+      recording = null
+      render()
+      return true
+    }
+
+    // A key can only do one thing, so it is taken away from other actions
+    const binding = eventToBinding(e)
+    const next = Object.fromEntries(
+      KEY_ACTIONS.map(a => [a.id, current[a.id].filter(b => b !== binding)])
+    ) as Keymap
+    next[recording] = [binding]
+    recording = null
+    update(next)
+    return true
+  }
+
+  const { overlay, close } = openModal(`
+    <div class="modal-dialog keymap-dialog">
+      <h3>Keyboard Shortcuts</h3>
+      <table class="keymap-table"></table>
+      <div class="modal-actions">
+        <button type="button" class="btn" data-action="reset">Reset to Defaults</button>
+        <button type="button" class="btn btn-primary" data-action="close">Close</button>
+      </div>
+    </div>
+  `, onKeydown)
+  const table = overlay.querySelector('table')!
+
+  const render = () => {
+    table.innerHTML = KEY_ACTIONS.map(action => `
+      <tr>
+        <td>${action.label}</td>
+        <td>${recording === action.id
+          ? '<span class="keymap-recording">Press a key…</span>'
+          : current[action.id].map(b => `<kbd>${formatBinding(b)}</kbd>`).join(' ') || '<span class="keymap-unbound">Unbound</span>'}</td>
+        <td><button type="button" class="zoom-btn" data-rebind="${action.id}">Change</button></td>
+      </tr>
+    `).join('')
+  }
+
+  const update = (next: Keymap) => {
+    current = next
+    saveKeymap(current)
+    onChange(current)
+    render()
+  }
+
+  overlay.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement
+    const rebind = target.closest<HTMLElement>('[data-rebind]')?.dataset.rebind as KeyAction | undefined
+    if (rebind) {
+      recording = rebind
+      render()
+    } else if (target.closest('[data-action="reset"]')) {
+      recording = null
+      update({ ...DEFAULT_KEYMAP })
+    }
+  })
+
+  render()
+  return close
+}
@@ -0,0 +1,244 @@
+import { timeToFrame } from './frames'
+import { isMarkerCategory, type MarkerCategory } from './markers'
+
+export type MarkerFileFormat = 'json' | 'csv' | 'edl' | 'vtt'
+
+export interface MarkerData {
+  time: number
+  label?: string
+  category?: MarkerCategory
+}
+
+export interface MarkerFileContext {
+  video: string
+  fps: number
+  duration: number
+}
+
+export const MARKER_FILE_FORMATS: { id: MarkerFileFormat; label: string; ext: string; mime: string }[] = [
+  { id: 'json', label: 'JSON', ext: '.json', mime: 'application/json' },
+  { id: 'csv', label: 'CSV', ext: '.csv', mime: 'text/csv' },
+  { id: 'edl', label: 'EDL (CMX3600)', ext: '.edl', mime: 'text/plain' },
+  { id: 'vtt', label: 'WebVTT chapters', ext: '.vtt', mime: 'text/vtt' },
+]
+
+export const MARKER_FILE_ACCEPT = MARKER_FILE_FORMATS.map(f => f.ext).join(',')
+
+// Formats without a label field get a placeholder title, which is dropped
+// again on import
+const PLACEHOLDER_TITLE = /^Marker \d+$/
+
+function markerTitle(marker: MarkerData, index: number): string {
+  return marker.label?.replace(/\s+/g, ' ').trim() || `Marker ${index + 1}`
+}
+
+function titleToLabel(title: string): string | undefined {
+  const label = title.trim()
+  return label && !PLACEHOLDER_TITLE.test(label) ? label : undefined
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// Timecodes count frames at the nominal (integer) rate, i.e. non-drop-frame,
+// which is what FCM: NON-DROP FRAME in the EDL header declares.
+function frameToTimecode(frame: number, fps: number): string {
+  const base = Math.round(fps)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const totalSeconds = Math.floor(frame / base)
+  return [
+    pad(Math.floor(totalSeconds / 3600)),
+    pad(Math.floor(totalSeconds / 60) % 60),
+    pad(totalSeconds % 60),
+    pad(frame % base),
+  ].join(':')
+}
+
+function timecodeToFrame(timecode: string, fps: number): number | null {
+  const match = timecode.match(/^(\d{2}):(\d{2}):(\d{2})[:;](\d{2})$/)
+  if (!match) return null
+  const [h, m, s, f] = match.slice(1).map(Number)
+  return ((((h * 60) + m) * 60) + s) * Math.round(fps) + f
+}
+
+function formatVttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000)
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`
+}
+
+function parseVttTime(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/)
+  if (!match) return null
+  const [h, m, s, ms] = [Number(match[1] ?? 0), Number(match[2]), Number(match[3]), Number(match[4])]
+  return (h * 3600) + (m * 60) + s + (ms / 1000)
+}
+
+export function serializeMarkers(format: MarkerFileFormat, markers: MarkerData[], context: MarkerFileContext): string {
+  const frames = markers.map(m => timeToFrame(m.time, context.fps))
+
+  if (format === 'json') {
+    return JSON.stringify({
+      version: 1,
+      video: context.video,
+      fps: context.fps,
+      markers: markers.map((m, i) => ({ time: m.time, frame: frames[i], label: m.label ?? '', category: m.category })),
+    }, null, 2)
+  }
+
+  if (format === 'csv') {
+    const rows = markers.map((m, i) => [
+      i + 1,
+      m.time.toFixed(6),
+      frames[i],
+      frameToTimecode(frames[i], context.fps),
+      escapeCsv(m.label ?? ''),
+      m.category ?? '',
+    ].join(','))
+    return ['index,time,frame,timecode,label,category', ...rows].join('\n') + '\n'
+  }
+
+  if (format === 'edl') {
+    // One single-frame event per marker, source and record timecodes equal
+    const events = markers.map((m, i) => {
+      const tcIn = frameToTimecode(frames[i], context.fps)
+      const tcOut = frameToTimecode(frames[i] + 1, context.fps)
+      return [
+        `${String(i + 1).padStart(3, '0')}  AX       V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}`,
+        `* FROM CLIP NAME: ${context.video}`,
+        `* COMMENT: ${markerTitle(m, i)}`,
+      ].join('\n')
+    })
+    return [`TITLE: ${context.video}`, 'FCM: NON-DROP FRAME', '', ...events].join('\n') + '\n'
+  }
+
+  // Each chapter runs from its marker to the next one (or the end of the clip)
+  const cues = markers.map((m, i) => {
+    const end = markers[i + 1]?.time ?? context.duration
+    return `${i + 1}\n${formatVttTime(m.time)} --> ${formatVttTime(Math.max(end, m.time))}\n${markerTitle(m, i)}`
+  })
+  return ['WEBVTT', '', ...cues.flatMap(cue => [cue, ''])].join('\n')
+}
+
+function detectFormat(filename: string, text: string): MarkerFileFormat | null {
+  const ext = filename.slice(filename.lastIndexOf('.')).toLowerCase()
+  const byExt = MARKER_FILE_FORMATS.find(f => f.ext === ext)
+  if (byExt) return byExt.id
+  const trimmed = text.trimStart()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json'
+  if (trimmed.startsWith('WEBVTT')) return 'vtt'
+  if (/^TITLE:/m.test(trimmed) || /^\d{3}\s/m.test(trimmed)) return 'edl'
+  return 'csv'
+}
+
+function parseJson(text: string): MarkerData[] {
+  const data = JSON.parse(text) as unknown
+  const list = Array.isArray(data) ? data : (data as { markers?: unknown }).markers
+  if (!Array.isArray(list)) throw new Error('Expected an array of markers')
+  return list.flatMap((item: unknown): MarkerData[] => {
+    if (typeof item === 'number') return Number.isFinite(item) ? [{ time: item }] : []
+    const { time, label, category } = (item ?? {}) as { time?: unknown; label?: unknown; category?: unknown }
+    if (!Number.isFinite(Number(time))) return []
+    return [{
+      time: Number(time),
+      label: typeof label === 'string' && label ? label : undefined,
+      category: isMarkerCategory(category) ? category : undefined,
+    }]
+  })
+}
+
+function parseCsv(text: string, fps: number): MarkerData[] {
+  const rows = text.split(/\r?\n/).map(splitCsvLine).filter(row => row[0] !== '')
+  if (rows.length === 0) return []
+
+  const header = rows[0].map(cell => cell.toLowerCase())
+  const hasHeader = header.some(cell => Number.isNaN(Number(cell)) && timecodeToFrame(cell, fps) === null)
+  const body = hasHeader ? rows.slice(1) : rows
+  const timeColumn = hasHeader ? header.indexOf('time') : 0
+  const frameColumn = hasHeader ? header.indexOf('frame') : -1
+  const timecodeColumn = hasHeader ? header.indexOf('timecode') : -1
+  const labelColumn = hasHeader ? header.indexOf('label') : -1
+  const categoryColumn = hasHeader ? header.indexOf('category') : -1
+
+  const readTime = (row: string[]): number | null => {
+    if (timeColumn >= 0 && row[timeColumn] && Number.isFinite(Number(row[timeColumn]))) return Number(row[timeColumn])
+    if (frameColumn >= 0 && row[frameColumn] && Number.isFinite(Number(row[frameColumn]))) return Number(row[frameColumn]) / fps
+    const frame = timecodeColumn >= 0 ? timecodeToFrame(row[timecodeColumn], fps) : null
+    return frame === null ? null : frame / fps
+  }
+
+  return body.flatMap(row => {
+    const time = readTime(row)
+    if (time === null) return []
+    const category = row[categoryColumn]
+    return [{
+      time,
+      label: row[labelColumn] || undefined,
+      category: isMarkerCategory(category) ? category : undefined,
+    }]
+  })
+}
+
+function parseEdl(text: string, fps: number): MarkerData[] {
+  const markers: MarkerData[] = []
+  for (const line of text.split(/\r?\n/)) {
+    // Event lines: number, reel, track, transition, then src in/out, rec in/out
+    const match = line.match(/^\d+\s+\S+\s+\S+\s+\S+(?:\s+\d+)?\s+(\d{2}:\d{2}:\d{2}[:;]\d{2})\s/)
+    const frame = match ? timecodeToFrame(match[1], fps) : null
+    if (frame !== null) {
+      markers.push({ time: frame / fps })
+      continue
+    }
+    const comment = line.match(/^\*\s*COMMENT:\s*(.*)$/)
+    const current = markers[markers.length - 1]
+    if (comment && current && !current.label) current.label = titleToLabel(comment[1])
+  }
+  return markers
+}
+
+function parseVtt(text: string): MarkerData[] {
+  const lines = text.split(/\r?\n/)
+  return lines.flatMap((line, i) => {
+    const match = line.match(/^([\d:.]+)\s+-->/)
+    const time = match ? parseVttTime(match[1]) : null
+    // The first line of the cue payload is the chapter title
+    return time === null ? [] : [{ time, label: titleToLabel(lines[i + 1] ?? '') }]
+  })
+}
+
+export function parseMarkerFile(filename: string, text: string, fps: number): MarkerData[] {
+  const format = detectFormat(filename, text)
+  if (format === 'json') return parseJson(text)
+  if (format === 'edl') return parseEdl(text, fps)
+  if (format === 'vtt') return parseVtt(text)
+  return parseCsv(text, fps)
+}
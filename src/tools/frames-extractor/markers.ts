@@ -0,0 +1,71 @@
+import type { ClipRange } from './clips'
+
+export type MarkerCategory = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple'
+
+export interface Marker {
+  id: string
+  time: number
+  label: string
+  category: MarkerCategory
+}
+
+export const MARKER_CATEGORIES: { id: MarkerCategory; label: string; color: string }[] = [
+  { id: 'red', label: 'Red', color: '#ff6b6b' },
+  { id: 'orange', label: 'Orange', color: '#ffa94d' },
+  { id: 'yellow', label: 'Yellow', color: '#ffd43b' },
+  { id: 'green', label: 'Green', color: '#69db7c' },
+  { id: 'blue', label: 'Blue', color: '#4dabf7' },
+  { id: 'purple', label: 'Purple', color: '#b197fc' },
+]
+
+export const DEFAULT_CATEGORY: MarkerCategory = 'red'
+
+const HISTORY_LIMIT = 100
+
+export function getCategory(id: string) {
+  return MARKER_CATEGORIES.find(c => c.id === id) ?? MARKER_CATEGORIES[0]
+}
+
+export function isMarkerCategory(value: unknown): value is MarkerCategory {
+  return MARKER_CATEGORIES.some(c => c.id === value)
+}
+
+export interface MarkerSnapshot {
+  markers: Marker[]
+  ranges: ClipRange[]
+}
+
+// Undo/redo over whole marker and range lists. Both are small plain objects,
+// so snapshots are simply copies taken before each edit.
+export function createMarkerHistory() {
+  const undoStack: MarkerSnapshot[] = []
+  const redoStack: MarkerSnapshot[] = []
+  const copy = ({ markers, ranges }: MarkerSnapshot): MarkerSnapshot => ({
+    markers: markers.map(m => ({ ...m })),
+    ranges: ranges.map(r => ({ ...r })),
+  })
+
+  return {
+    record(before: MarkerSnapshot) {
+      undoStack.push(copy(before))
+      if (undoStack.length > HISTORY_LIMIT) undoStack.shift()
+      redoStack.length = 0
+    },
+    undo(current: MarkerSnapshot): MarkerSnapshot | null {
+      const previous = undoStack.pop()
+      if (!previous) return null
+      redoStack.push(copy(current))
+      return previous
+    },
+    redo(current: MarkerSnapshot): MarkerSnapshot | null {
+      const next = redoStack.pop()
+      if (!next) return null
+      undoStack.push(copy(current))
+      return next
+    },
+    clear() {
+      undoStack.length = 0
+      redoStack.length = 0
+    },
+  }
+}
@@ -0,0 +1,84 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { execWithProgress, mountInputFile, readOutputBlob } from '../../lib/ffmpeg'
+
+export interface VideoProxy {
+  blob: Blob
+  // Dimensions of the original, which exported frames are decoded from
+  width: number
+  height: number
+}
+
+// Containers and codecs the browser may not play still get through the picker
+export const VIDEO_EXTS = ['.mp4', '.mov', '.m4v', '.webm', '.mkv', '.avi', '.wmv', '.flv', '.mpg', '.mpeg', '.mts', '.m2ts', '.mxf', '.3gp']
+
+const PROXY_MAX_DIMENSION = 1280
+const PROXY_OUTPUT = 'proxy.mp4'
+const FRAME_OUTPUT = 'source-frame.png'
+
+export function isVideoFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return file.type.startsWith('video/') || VIDEO_EXTS.some(ext => name.endsWith(ext))
+}
+
+// Transcodes a small H.264 copy the <video> element can scrub. Frame timing is
+// passed through untouched so marker times on the proxy line up with the original.
+export async function createProxy(
+  ffmpeg: FFmpeg,
+  file: File,
+  onProgress: (ratio: number) => void
+): Promise<VideoProxy> {
+  let size: { width: number; height: number } | null = null
+  let rotated = false
+  // The input stream is described before the output one, so the first match wins
+  const onLog = ({ message }: { message: string }) => {
+    const stream = message.match(/Stream #0:\d+.*?: Video: .*?, (\d{2,5})x(\d{2,5})[\s,]/)
+    if (stream && !size) size = { width: Number(stream[1]), height: Number(stream[2]) }
+    const rotation = message.match(/rotation of (-?[\d.]+) degrees/)
+    if (rotation && Math.abs(Math.round(Number(rotation[1]))) % 180 === 90) rotated = true
+  }
+
+  const input = await mountInputFile(ffmpeg, file)
+  ffmpeg.on('log', onLog)
+  try {
+    const max = PROXY_MAX_DIMENSION
+    const exitCode = await execWithProgress(ffmpeg, [
+      '-i', input.path,
+      '-map', '0:v:0',
+      '-map', '0:a:0?',
+      '-vf', `scale='min(iw,${max})':'min(ih,${max})':force_original_aspect_ratio=decrease:force_divisible_by=2`,
+      '-fps_mode', 'passthrough',
+      '-c:v', 'libx264',
+      '-preset', 'ultrafast',
+      '-crf', '26',
+      '-pix_fmt', 'yuv420p',
+      // Short GOPs keep seeking snappy while scrubbing
+      '-g', '15',
+      '-c:a', 'aac',
+      '-b:a', '96k',
+      '-ac', '2',
+      '-movflags', '+faststart',
+      PROXY_OUTPUT,
+    ], onProgress)
+    if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`)
+
+    const blob = await readOutputBlob(ffmpeg, PROXY_OUTPUT, 'video/mp4')
+    const source: { width: number; height: number } = size ?? { width: 0, height: 0 }
+    // FFmpeg applies the rotation while decoding, so frames come out upright
+    return rotated
+      ? { blob, width: source.height, height: source.width }
+      : { blob, ...source }
+  } finally {
+    ffmpeg.off('log', onLog)
+    await input.unmount()
+  }
+}
+
+// Decodes the frame shown at `time` straight from the original as a lossless PNG.
+// Input seeking drops everything before -ss, so it starts just ahead of the frame.
+export async function extractFrame(ffmpeg: FFmpeg, input: string, time: number, fps: number): Promise<ImageBitmap> {
+  const start = Math.max(0, time - 0.25 / fps)
+  const exitCode = await ffmpeg.exec(['-ss', start.toFixed(6), '-i', input, '-frames:v', '1', '-an', FRAME_OUTPUT])
+  if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`)
+
+  return createImageBitmap(await readOutputBlob(ffmpeg, FRAME_OUTPUT, 'image/png'))
+}
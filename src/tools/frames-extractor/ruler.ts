@@ -0,0 +1,44 @@
+import { formatDuration } from '../../lib/format'
+import { fitCanvas } from './filmstrip'
+
+// Labeled ticks are kept at least this many CSS pixels apart
+const MIN_LABEL_SPACING = 90
+const FRAME_STEPS = [1, 2, 5, 10, 15]
+const SECOND_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600]
+
+function formatTick(time: number, step: number): string {
+  if (step >= 1) return formatDuration(time)
+  const ms = Math.round((time % 1) * 1000)
+  return `${formatDuration(Math.floor(time))}.${String(ms).padStart(3, '0')}`
+}
+
+export function drawTimeRuler(canvas: HTMLCanvasElement, start: number, duration: number, fps: number) {
+  const ctx = fitCanvas(canvas)
+  if (!ctx || duration <= 0) return
+
+  const ratio = window.devicePixelRatio || 1
+  const pixelsPerSecond = canvas.width / duration
+  const steps = [...FRAME_STEPS.map(frames => frames / fps), ...SECOND_STEPS]
+  const step = steps.find(s => s * pixelsPerSecond >= MIN_LABEL_SPACING * ratio) ?? SECOND_STEPS[SECOND_STEPS.length - 1]
+  // Minor ticks split each step in five, or mark single frames once that's finer
+  const minor = Math.max(step / 5, 1 / fps)
+
+  const style = getComputedStyle(canvas)
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.fillStyle = style.color
+  ctx.font = `${10 * ratio}px ${style.fontFamily}`
+  ctx.textBaseline = 'top'
+
+  const end = start + duration
+  // Iterating by index avoids float drift from repeated addition
+  for (let i = Math.ceil(start / minor); i * minor <= end; i++) {
+    const x = Math.round((i * minor - start) * pixelsPerSecond)
+    ctx.fillRect(x, canvas.height - (4 * ratio), ratio, 4 * ratio)
+  }
+  for (let i = Math.ceil(start / step); i * step <= end; i++) {
+    const time = i * step
+    const x = Math.round((time - start) * pixelsPerSecond)
+    ctx.fillRect(x, canvas.height - (10 * ratio), ratio, 10 * ratio)
+    ctx.fillText(formatTick(time, step), x + (3 * ratio), 1 * ratio)
+  }
+}
@@ -0,0 +1,69 @@
+import { fitCanvas } from './filmstrip'
+
+// Peak resolution: one bucket per 10ms is enough for the deepest zoom level
+const BUCKETS_PER_SECOND = 100
+// decodeAudioData needs the whole file in memory, so very large files skip it
+const MAX_DECODE_SIZE = 512 * 1024 * 1024
+// It also expands every channel to 32-bit samples at the source rate before
+// resampling, so long media would take gigabytes however small the file is
+const MAX_DECODE_DURATION = 15 * 60
+// Plenty for peaks, and keeps the resampled buffer small
+const DECODE_SAMPLE_RATE = 8000
+
+export interface WaveformPeaks {
+  peaks: Float32Array
+  duration: number
+}
+
+export async function computeWaveform(media: Blob, duration: number): Promise<WaveformPeaks | null> {
+  if (media.size > MAX_DECODE_SIZE || !(duration <= MAX_DECODE_DURATION)) return null
+
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+  let buffer: AudioBuffer
+  try {
+    buffer = await context.decodeAudioData(await media.arrayBuffer())
+  } catch {
+    // No audio track, or a codec the browser can't decode on its own
+    return null
+  }
+
+  const bucketCount = Math.max(1, Math.ceil(buffer.duration * BUCKETS_PER_SECOND))
+  const samplesPerBucket = buffer.length / bucketCount
+  const peaks = new Float32Array(bucketCount)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < bucketCount; i++) {
+      const from = Math.floor(i * samplesPerBucket)
+      const to = Math.min(data.length, Math.floor((i + 1) * samplesPerBucket))
+      let peak = peaks[i]
+      for (let j = from; j < to; j++) {
+        const value = Math.abs(data[j])
+        if (value > peak) peak = value
+      }
+      peaks[i] = peak
+    }
+  }
+  return { peaks, duration: buffer.duration }
+}
+
+export function drawWaveform(canvas: HTMLCanvasElement, waveform: WaveformPeaks, start: number, duration: number) {
+  const ctx = fitCanvas(canvas)
+  if (!ctx || duration <= 0) return
+
+  const { peaks } = waveform
+  const middle = canvas.height / 2
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.fillStyle = getComputedStyle(canvas).color
+
+  for (let x = 0; x < canvas.width; x++) {
+    // Each pixel column shows the loudest bucket it covers
+    const from = Math.floor(((start + (x / canvas.width) * duration) / waveform.duration) * peaks.length)
+    const to = Math.max(from + 1, Math.floor(((start + ((x + 1) / canvas.width) * duration) / waveform.duration) * peaks.length))
+    let peak = 0
+    for (let i = Math.max(0, from); i < Math.min(peaks.length, to); i++) {
+      if (peaks[i] > peak) peak = peaks[i]
+    }
+    const height = Math.max(1, peak * canvas.height)
+    ctx.fillRect(x, middle - (height / 2), 1, height)
+  }
+}
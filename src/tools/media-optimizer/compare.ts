@@ -0,0 +1,167 @@
+import { openModal } from '../../lib/dialog'
+import { escapeHtml, formatBytes, formatSavings } from '../../lib/format'
+
+interface CompareSource {
+  name: string
+  type: 'image' | 'video'
+  original: Blob
+  output: Blob
+  // Where the output starts in the original, for trimmed videos
+  offset?: number
+}
+
+type CompareMode = 'side' | 'slider'
+
+let closeViewer: (() => void) | null = null
+
+export function closeCompareViewer() {
+  closeViewer?.()
+}
+
+export function openCompareViewer(source: CompareSource) {
+  closeViewer?.()
+
+  const originalUrl = URL.createObjectURL(source.original)
+  const outputUrl = URL.createObjectURL(source.output)
+  let cleanupBody: (() => void) | null = null
+  const { overlay, close } = openModal(`
+    <div class="modal-dialog compare-dialog">
+      <div class="compare-header">
+        <span class="compare-title">${escapeHtml(source.name)}</span>
+        <span class="compare-sizes">
+          ${formatBytes(source.original.size)} → ${formatBytes(source.output.size)}
+          (${formatSavings(source.original.size, source.output.size)})
+        </span>
+        ${source.type === 'image' ? `
+          <div class="zoom-buttons compare-modes">
+            <button class="zoom-btn active" data-mode="side">Side by side</button>
+            <button class="zoom-btn" data-mode="slider">Slider</button>
+          </div>
+        ` : ''}
+        <button class="btn-remove compare-close" data-action="close" title="Close">&times;</button>
+      </div>
+      <div class="compare-body"></div>
+    </div>
+  `, undefined, () => {
+    cleanupBody?.()
+    URL.revokeObjectURL(originalUrl)
+    URL.revokeObjectURL(outputUrl)
+    closeViewer = null
+  })
+  closeViewer = close
+
+  const body = overlay.querySelector<HTMLDivElement>('.compare-body')!
+
+  const renderMode = (mode: CompareMode) => {
+    cleanupBody?.()
+    cleanupBody = null
+    overlay.querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.mode === mode)
+    })
+
+    if (source.type === 'video' && source.output.type.startsWith('image/')) {
+      // GIF / animated WebP output: nothing to sync against, just show both
+      body.innerHTML = `
+        <div class="compare-side">
+          <figure><video src="${originalUrl}" controls loop></video><figcaption>Original</figcaption></figure>
+          <figure><img src="${outputUrl}" alt="Output" /><figcaption>Output</figcaption></figure>
+        </div>
+      `
+    } else if (source.type === 'video') {
+      cleanupBody = renderSyncedVideos(body, originalUrl, outputUrl, source.offset ?? 0)
+    } else if (mode === 'slider') {
+      renderSlider(body, originalUrl, outputUrl)
+    } else {
+      body.innerHTML = `
+        <div class="compare-side">
+          <figure><img src="${originalUrl}" alt="Original" /><figcaption>Original</figcaption></figure>
+          <figure><img src="${outputUrl}" alt="Output" /><figcaption>Output</figcaption></figure>
+        </div>
+      `
+    }
+  }
+
+  overlay.addEventListener('click', (e) => {
+    const mode = (e.target as HTMLElement).closest<HTMLElement>('[data-mode]')?.dataset.mode as CompareMode | undefined
+    if (mode) renderMode(mode)
+  })
+
+  renderMode('side')
+}
+
+function renderSlider(body: HTMLDivElement, originalUrl: string, outputUrl: string) {
+  body.innerHTML = `
+    <div class="compare-slider">
+      <img src="${originalUrl}" alt="Original" />
+      <img class="compare-slider-output" src="${outputUrl}" alt="Output" />
+      <div class="compare-slider-handle"></div>
+      <span class="compare-label left">Original</span>
+      <span class="compare-label right">Output</span>
+    </div>
+  `
+  const slider = body.querySelector<HTMLDivElement>('.compare-slider')!
+  const output = body.querySelector<HTMLImageElement>('.compare-slider-output')!
+  const handle = body.querySelector<HTMLDivElement>('.compare-slider-handle')!
+
+  const setPosition = (percent: number) => {
+    output.style.clipPath = `inset(0 0 0 ${percent}%)`
+    handle.style.left = `${percent}%`
+  }
+
+  slider.addEventListener('pointermove', (e) => {
+    const rect = slider.getBoundingClientRect()
+    setPosition(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)))
+  })
+  setPosition(50)
+}
+
+function renderSyncedVideos(body: HTMLDivElement, originalUrl: string, outputUrl: string, offset: number): () => void {
+  body.innerHTML = `
+    <div class="compare-side">
+      <figure><video src="${originalUrl}" controls></video><figcaption>Original</figcaption></figure>
+      <figure><video src="${outputUrl}" muted></video><figcaption>Output</figcaption></figure>
+    </div>
+  `
+  const [leader, follower] = Array.from(body.querySelectorAll('video'))
+
+  const sync = () => {
+    const time = Math.max(0, leader.currentTime - offset)
+    if (Math.abs(follower.currentTime - time) > 0.1) {
+      follower.currentTime = time
+    }
+  }
+  // Start the original where the trimmed output begins
+  const onMetadata = () => {
+    if (offset > 0) leader.currentTime = offset
+  }
+  const onPlay = () => {
+    sync()
+    // Autoplay policy or an undecodable output can reject; keep the pair in step
+    follower.play().catch(() => leader.pause())
+  }
+  const onPause = () => {
+    follower.pause()
+    sync()
+  }
+  const onRate = () => {
+    follower.playbackRate = leader.playbackRate
+  }
+
+  leader.addEventListener('loadedmetadata', onMetadata)
+  leader.addEventListener('play', onPlay)
+  leader.addEventListener('pause', onPause)
+  leader.addEventListener('seeked', sync)
+  leader.addEventListener('timeupdate', sync)
+  leader.addEventListener('ratechange', onRate)
+
+  return () => {
+    leader.pause()
+    follower.pause()
+    leader.removeEventListener('loadedmetadata', onMetadata)
+    leader.removeEventListener('play', onPlay)
+    leader.removeEventListener('pause', onPause)
+    leader.removeEventListener('seeked', sync)
+    leader.removeEventListener('timeupdate', sync)
+    leader.removeEventListener('ratechange', onRate)
+  }
+}
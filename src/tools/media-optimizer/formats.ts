@@ -0,0 +1,134 @@
+import {
+  getVideoFormat,
+  maxResolutionFilter,
+  type OutputFormat,
+  type VideoFormat,
+  videoCodecArgs,
+  videoFilters,
+} from '../../lib/video-encoding'
+import type { ConversionSettings } from './settings'
+
+export type ImageFormat = 'webp' | 'avif' | 'png' | 'jpeg'
+
+// JPEG XL isn't offered: neither the bundled core (no libjxl) nor any
+// browser's canvas can encode it.
+export const IMAGE_FORMATS: OutputFormat<ImageFormat>[] = [
+  { id: 'webp', label: 'WebP', ext: '.webp', mime: 'image/webp', alpha: true },
+  { id: 'avif', label: 'AVIF', ext: '.avif', mime: 'image/avif', alpha: true },
+  { id: 'png', label: 'PNG (optimized)', ext: '.png', mime: 'image/png', alpha: true },
+  { id: 'jpeg', label: 'JPEG', ext: '.jpg', mime: 'image/jpeg' },
+]
+
+// The bundled core has no AVIF encoder (libaom), so FFmpeg renders a lossless
+// PNG and the browser's canvas encoder takes it from there.
+export function isCanvasEncoded(format: OutputFormat): boolean {
+  return format.id === 'avif'
+}
+
+// The file FFmpeg writes: the output itself, or the PNG a canvas re-encodes
+export function getRenderName(base: string, format: OutputFormat): string {
+  return base + (isCanvasEncoded(format) ? '.png' : format.ext)
+}
+
+export function getOutputFormat(type: 'image' | 'video', settings: ConversionSettings): OutputFormat {
+  if (type === 'image') {
+    return IMAGE_FORMATS.find(f => f.id === settings.imageFormat) ?? IMAGE_FORMATS[0]
+  }
+  return getVideoFormat(settings.videoFormat)
+}
+
+export function getOutputName(name: string, format: OutputFormat, suffix?: string | number): string {
+  return name.replace(/\.[^.]+$/, '') + (suffix ? `-${suffix}` : '') + format.ext
+}
+
+function qualityToJpegScale(quality: number): number {
+  return Math.round(31 - (quality / 100) * 29)
+}
+
+export interface BuildOptions {
+  // EXIF orientation of an image input (1 = upright)
+  orientation?: number
+  // Crop/scale/pad filters from a resize plan, used in place of max resolution
+  resize?: string[]
+  // Section of a video input to encode, in seconds
+  trim?: { start: number; end: number }
+  // Encodes the single frame at this time instead, for poster images
+  frame?: number
+  // Two-pass encoding; the first pass only writes rate control statistics
+  pass?: 1 | 2
+}
+
+export const PASS_LOG_PREFIX = 'ffmpeg2pass'
+
+export function buildArgs(
+  input: string,
+  output: string,
+  type: 'image' | 'video',
+  settings: ConversionSettings,
+  options: BuildOptions = {}
+): string[] {
+  const format = getOutputFormat(type, settings)
+  const filters = buildFilters(type, format, settings, options)
+  const codecArgs = type === 'image'
+    ? imageCodecArgs(format.id as ImageFormat, settings)
+    : videoCodecArgs(format.id as VideoFormat, settings)
+  // Container tags such as a phone's recording location are dropped unless preserved
+  const metadataArgs = ['-map_metadata', settings.metadata === 'preserve' ? '0' : '-1']
+
+  // Input seeking is fast, and re-encoding still decodes from the preceding keyframe
+  const inputArgs = options.frame !== undefined
+    ? ['-ss', options.frame.toFixed(3), '-i', input, '-frames:v', '1']
+    : options.trim
+      ? ['-ss', options.trim.start.toFixed(3), '-t', (options.trim.end - options.trim.start).toFixed(3), '-i', input]
+      : ['-i', input]
+
+  const filterArgs = filters.length ? ['-vf', filters.join(',')] : []
+  const passArgs = options.pass ? ['-pass', String(options.pass), '-passlogfile', PASS_LOG_PREFIX] : []
+
+  if (options.pass === 1) {
+    return [...inputArgs, ...filterArgs, ...codecArgs, ...passArgs, '-an', '-f', 'null', '/dev/null']
+  }
+  return [...inputArgs, ...filterArgs, ...codecArgs, ...passArgs, ...metadataArgs, output]
+}
+
+// FFmpeg doesn't apply EXIF orientation to still images, so it is baked into
+// the pixels instead.
+function orientationFilter(orientation: number): string | null {
+  switch (orientation) {
+    case 2: return 'hflip'
+    case 3: return 'hflip,vflip'
+    case 4: return 'vflip'
+    case 5: return 'transpose=cclock_flip'
+    case 6: return 'transpose=clock'
+    case 7: return 'transpose=clock_flip'
+    case 8: return 'transpose=cclock'
+    default: return null
+  }
+}
+
+function buildFilters(type: 'image' | 'video', format: OutputFormat, settings: ConversionSettings, options: BuildOptions): string[] {
+  if (type === 'video') return videoFilters(format.id as VideoFormat, settings, options.resize)
+
+  const filters: string[] = []
+  const rotate = orientationFilter(options.orientation ?? 1)
+  if (rotate) filters.push(rotate)
+  if (options.resize) {
+    filters.push(...options.resize)
+  } else if (settings.maxResolution > 0) {
+    filters.push(maxResolutionFilter(settings.maxResolution))
+  }
+  return filters
+}
+
+function imageCodecArgs(format: ImageFormat, settings: ConversionSettings): string[] {
+  switch (format) {
+    case 'webp':
+      return ['-q:v', String(settings.quality)]
+    case 'png':
+      return ['-c:v', 'png', '-compression_level', '9', '-pred', 'mixed']
+    case 'avif':
+      return ['-c:v', 'png']
+    case 'jpeg':
+      return ['-c:v', 'mjpeg', '-q:v', String(qualityToJpegScale(settings.quality))]
+  }
+}
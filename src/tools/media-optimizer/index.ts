@@ -0,0 +1,1208 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { fetchFile } from '@ffmpeg/util'
+import { embedExif, type ExifData, readExif, resetOrientation } from '../../lib/exif'
+import { createFFmpegPool, execWithProgress, isMultiThreaded, readOutputBlob, removeOutput } from '../../lib/ffmpeg'
+import { escapeHtml, formatBytes, formatDuration, formatSavings } from '../../lib/format'
+import type { Tool } from '../../main'
+import { type MediaInfo, probeInput, probeMedia, renderMediaInfo } from '../../lib/probe'
+import { getOutputDir, renderOutputDirControls, setupOutputDirControls, writeToOutputDir } from '../../lib/output-dir'
+import { downloadZip, type ZipEntry } from '../../lib/zip'
+import { canEncodeImage, encodeCanvasImage } from '../../lib/image-encoding'
+import type { OutputFormat } from '../../lib/video-encoding'
+import { closeCompareViewer, openCompareViewer } from './compare'
+import {
+  type BuildOptions,
+  buildArgs,
+  getOutputFormat,
+  getOutputName,
+  getRenderName,
+  IMAGE_FORMATS,
+  isCanvasEncoded,
+  PASS_LOG_PREFIX,
+} from './formats'
+import {
+  buildManifest,
+  buildPictureMarkup,
+  type ManifestSource,
+  MANIFEST_NAME,
+  MARKUP_NAME,
+  openMarkupDialog,
+  type OutputVariant,
+} from './manifest'
+import { hasResizeRules, parseWidths, planResize, type ResizeTarget } from './resize'
+import { searchQuality, type TargetSizeResult, targetVideoBitrate } from './target-size'
+import {
+  BUILT_IN_PRESETS,
+  type ConversionSettings,
+  loadConcurrency,
+  loadStoredSettings,
+  markFormatUnavailable,
+  MAX_CONCURRENCY,
+  readSettingInput,
+  renderSettingsFields,
+  resolveSettings,
+  saveConcurrency,
+  saveStoredSettings,
+} from './settings'
+
+interface FileItem {
+  file: File
+  name: string
+  path: string
+  type: 'image' | 'video'
+  status: 'pending' | 'processing' | 'done' | 'error' | 'cancelled'
+  progress: number
+  outputBlob?: Blob
+  outputName?: string
+  // Responsive variants, smallest first; the largest is also the output above
+  variants?: OutputVariant[]
+  poster?: { name: string; blob: Blob }
+  targetSize?: TargetSizeResult
+  keptOriginal?: boolean
+  error?: string
+  saved?: 'written' | 'skipped' | 'failed'
+  savedPath?: string
+  overrides?: Partial<ConversionSettings>
+  inspecting?: boolean
+  info?: MediaInfo
+  exif?: ExifData | null
+  infoError?: string
+  // Picked in the row's preview player, in seconds
+  trim?: { start: number; end: number }
+  posterTime?: number
+  duration?: number
+  previewing?: boolean
+}
+
+const IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.tiff', '.tif', '.webp']
+const VIDEO_EXTS = ['.mp4', '.mov', '.avi', '.mkv', '.wmv', '.flv', '.m4v', '.mpg', '.mpeg', '.webm']
+
+interface DroppedFile {
+  file: File
+  path: string
+}
+
+// Aborted on unmount so a batch that is still winding down leaves the next mount alone
+let lifecycle = new AbortController()
+let files: FileItem[] = []
+let isProcessing = false
+let isPaused = false
+let resumeBatch: (() => void) | null = null
+let concurrency = loadConcurrency()
+const pool = createFFmpegPool()
+const activeJobs = new Map<FileItem, FFmpeg>()
+const batchItems = new Set<FileItem>()
+let batchStartedAt = 0
+let batchFinishedAt = 0
+let pausedAt = 0
+let pausedDuration = 0
+let stored = loadStoredSettings()
+let editingIndex: number | null = null
+let closeMarkup: (() => void) | null = null
+const previewUrls = new Map<FileItem, string>()
+
+export const mediaOptimizer: Tool = { mount, unmount }
+
+function mount(container: HTMLElement) {
+  lifecycle = new AbortController()
+  container.innerHTML = `
+    <div class="media-optimizer">
+      <a href="/" class="back-link">&larr; Back</a>
+      <h1>Media Optimizer</h1>
+      <p class="subtitle">Convert images and videos to web-friendly formats</p>
+
+      <div id="drop-zone" class="drop-zone">
+        <p>Drop files or folder here</p>
+        <p id="format-hint" class="hint"></p>
+        <button id="folder-btn" class="btn btn-small folder-btn">Choose folder</button>
+        <input type="file" id="file-input" multiple hidden />
+        <input type="file" id="folder-input" webkitdirectory hidden />
+      </div>
+
+      <div id="file-list" class="file-list hidden">
+        <div class="file-list-header">
+          <span id="file-count">0 files</span>
+          <div class="header-actions">
+            <label class="setting-field inline" title="Files converted in parallel">
+              <span>Parallel</span>
+              <input type="number" id="concurrency-input" min="1" max="${MAX_CONCURRENCY}" value="${concurrency}" />
+            </label>
+            <button id="clear-btn" class="btn btn-small">Clear</button>
+            <button id="retry-btn" class="btn btn-small hidden">Retry Failed</button>
+            <button id="pause-btn" class="btn btn-small hidden">Pause</button>
+            <button id="cancel-btn" class="btn btn-small hidden">Cancel</button>
+            <button id="start-btn" class="btn btn-primary">Convert All</button>
+          </div>
+        </div>
+        <div id="batch-progress" class="batch-progress hidden">
+          <div class="mini-progress"><div id="batch-progress-bar" class="mini-progress-bar"></div></div>
+          <span id="batch-stats" class="batch-stats"></span>
+        </div>
+        <div id="settings-panel" class="settings-panel">
+          <div class="settings-header">
+            <label class="setting-field">
+              <span>Preset</span>
+              <select id="preset-select"></select>
+            </label>
+            <button id="save-preset-btn" class="btn btn-small">Save as preset</button>
+            <button id="delete-preset-btn" class="btn btn-small">Delete preset</button>
+          </div>
+          <div id="global-settings" class="settings-fields"></div>
+        </div>
+        <div id="files-container" class="files-container"></div>
+        <div class="file-list-footer">
+          ${renderOutputDirControls()}
+          <button id="markup-btn" class="btn btn-small hidden">Srcset markup</button>
+          <button id="download-all-btn" class="btn btn-primary hidden">Download All (ZIP)</button>
+        </div>
+      </div>
+
+      <div id="loading-ffmpeg" class="loading-ffmpeg hidden">
+        <div class="spinner"></div>
+        <p>Loading FFmpeg${isMultiThreaded() ? ' (multi-threaded)' : ''}...</p>
+      </div>
+    </div>
+  `
+
+  files = []
+  isProcessing = false
+  editingIndex = null
+  stored = loadStoredSettings()
+  setupDropZone()
+  setupSettingsPanel()
+  setupFileActions()
+  setupOutputDirControls(renderFiles)
+
+  for (const format of IMAGE_FORMATS.filter(isCanvasEncoded)) {
+    canEncodeImage(format.mime).then(supported => {
+      if (supported) return
+      markFormatUnavailable(format.id)
+      renderSettingsPanel()
+    })
+  }
+}
+
+function unmount() {
+  lifecycle.abort()
+  closeCompareViewer()
+  closeMarkup?.()
+  closeMarkup = null
+  isProcessing = false
+  isPaused = false
+  resumeBatch?.()
+  resumeBatch = null
+  for (const [item, ffmpeg] of activeJobs) {
+    item.status = 'cancelled'
+    ffmpeg.terminate()
+  }
+  activeJobs.clear()
+  batchItems.clear()
+  // Idle instances each hold a wasm heap, so they don't outlive the tool
+  pool.clear()
+  closePreviews()
+  files = []
+}
+
+function setupDropZone() {
+  const dropZone = document.getElementById('drop-zone')!
+  const fileInput = document.getElementById('file-input') as HTMLInputElement
+  const folderInput = document.getElementById('folder-input') as HTMLInputElement
+
+  dropZone.addEventListener('click', () => fileInput.click())
+
+  document.getElementById('folder-btn')?.addEventListener('click', (e) => {
+    e.stopPropagation()
+    folderInput.click()
+  })
+
+  dropZone.addEventListener('dragover', (e) => {
+    e.preventDefault()
+    dropZone.classList.add('dragover')
+  })
+
+  dropZone.addEventListener('dragleave', () => {
+    dropZone.classList.remove('dragover')
+  })
+
+  dropZone.addEventListener('drop', async (e) => {
+    e.preventDefault()
+    dropZone.classList.remove('dragover')
+
+    const items = e.dataTransfer?.items
+    if (items) {
+      const filePromises: Promise<DroppedFile[]>[] = []
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i].webkitGetAsEntry()
+        if (item) {
+          filePromises.push(traverseEntry(item))
+        }
+      }
+      const allFiles = (await Promise.all(filePromises)).flat()
+      addFiles(allFiles)
+    }
+  })
+
+  fileInput.addEventListener('change', () => {
+    if (fileInput.files) {
+      addFiles(Array.from(fileInput.files, file => ({ file, path: file.name })))
+    }
+  })
+
+  folderInput.addEventListener('change', () => {
+    if (folderInput.files) {
+      addFiles(Array.from(folderInput.files, file => ({ file, path: file.webkitRelativePath || file.name })))
+    }
+  })
+
+  document.getElementById('clear-btn')?.addEventListener('click', () => {
+    if (isProcessing) cancelBatch()
+    closePreviews()
+    files = []
+    batchItems.clear()
+    editingIndex = null
+    renderFiles()
+    document.getElementById('file-list')?.classList.add('hidden')
+    document.getElementById('drop-zone')?.classList.remove('hidden')
+  })
+
+  document.getElementById('start-btn')?.addEventListener('click', startConversion)
+  document.getElementById('pause-btn')?.addEventListener('click', togglePause)
+  document.getElementById('cancel-btn')?.addEventListener('click', cancelBatch)
+  document.getElementById('retry-btn')?.addEventListener('click', () => {
+    files.filter(f => f.status === 'error' || f.status === 'cancelled').forEach(resetItem)
+    startConversion()
+  })
+
+  const concurrencyInput = document.getElementById('concurrency-input') as HTMLInputElement
+  concurrencyInput.addEventListener('change', () => {
+    concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, Math.round(Number(concurrencyInput.value)) || 1))
+    concurrencyInput.value = String(concurrency)
+    saveConcurrency(concurrency)
+  })
+  document.getElementById('download-all-btn')?.addEventListener('click', downloadAll)
+  document.getElementById('markup-btn')?.addEventListener('click', () => {
+    closeMarkup?.()
+    closeMarkup = openMarkupDialog(getManifestSources())
+  })
+}
+
+function setupSettingsPanel() {
+  const presetSelect = document.getElementById('preset-select') as HTMLSelectElement
+  const globalSettings = document.getElementById('global-settings')!
+
+  presetSelect.addEventListener('change', () => {
+    const preset = getAllPresets().find(p => p.id === presetSelect.value)
+    if (!preset) return
+    stored.presetId = preset.id
+    stored.settings = { ...preset.settings }
+    saveStoredSettings(stored)
+    renderSettingsPanel()
+    renderFiles()
+  })
+
+  globalSettings.addEventListener('change', (e) => {
+    const update = readSettingInput(e.target as HTMLInputElement | HTMLSelectElement)
+    if (!update) return
+    stored.settings = { ...stored.settings, ...update }
+    stored.presetId = ''
+    saveStoredSettings(stored)
+    renderSettingsPanel()
+    renderFiles()
+  })
+
+  document.getElementById('save-preset-btn')?.addEventListener('click', () => {
+    const name = prompt('Preset name')?.trim()
+    if (!name) return
+    const existing = stored.customPresets.find(p => p.name === name)
+    if (existing) {
+      existing.settings = { ...stored.settings }
+      stored.presetId = existing.id
+    } else {
+      const id = `custom-${Date.now()}`
+      stored.customPresets.push({ id, name, settings: { ...stored.settings } })
+      stored.presetId = id
+    }
+    saveStoredSettings(stored)
+    renderSettingsPanel()
+  })
+
+  document.getElementById('delete-preset-btn')?.addEventListener('click', () => {
+    const preset = stored.customPresets.find(p => p.id === stored.presetId)
+    if (!preset || !confirm(`Delete preset "${preset.name}"?`)) return
+    stored.customPresets = stored.customPresets.filter(p => p.id !== preset.id)
+    stored.presetId = ''
+    saveStoredSettings(stored)
+    renderSettingsPanel()
+  })
+
+  renderSettingsPanel()
+}
+
+function getAllPresets() {
+  return [...BUILT_IN_PRESETS, ...stored.customPresets]
+}
+
+function renderSettingsPanel() {
+  const presetSelect = document.getElementById('preset-select') as HTMLSelectElement | null
+  const globalSettings = document.getElementById('global-settings')
+  const deleteBtn = document.getElementById('delete-preset-btn')
+  if (!presetSelect || !globalSettings || !deleteBtn) return
+
+  const presets = getAllPresets()
+  const isCustom = !presets.some(p => p.id === stored.presetId)
+  presetSelect.innerHTML = `
+    ${isCustom ? '<option value="" selected>Custom</option>' : ''}
+    ${presets.map(p => `<option value="${escapeHtml(p.id)}"${p.id === stored.presetId ? ' selected' : ''}>${escapeHtml(p.name)}</option>`).join('')}
+  `
+  globalSettings.innerHTML = renderSettingsFields(stored.settings)
+
+  const formatHint = document.getElementById('format-hint')
+  if (formatHint) {
+    formatHint.textContent = `Images → ${getOutputFormat('image', stored.settings).label} | Videos → ${getOutputFormat('video', stored.settings).label}`
+  }
+  deleteBtn.classList.toggle('hidden', !stored.customPresets.some(p => p.id === stored.presetId))
+}
+
+async function traverseEntry(entry: FileSystemEntry): Promise<DroppedFile[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) => {
+      (entry as FileSystemFileEntry).file(
+        (file) => resolve([{ file, path: entry.fullPath.replace(/^\//, '') }]),
+        () => resolve([])
+      )
+    })
+  } else if (entry.isDirectory) {
+    const dirReader = (entry as FileSystemDirectoryEntry).createReader()
+    const entries: FileSystemEntry[] = []
+    // readEntries returns at most ~100 entries per call; keep reading until it comes back empty
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve) => {
+        dirReader.readEntries((entries) => resolve(entries), () => resolve([]))
+      })
+      if (batch.length === 0) break
+      entries.push(...batch)
+    }
+    const nestedFiles = await Promise.all(entries.map(traverseEntry))
+    return nestedFiles.flat()
+  }
+  return []
+}
+
+function getFileType(filename: string): 'image' | 'video' | null {
+  const ext = '.' + filename.split('.').pop()?.toLowerCase()
+  if (IMAGE_EXTS.includes(ext)) return 'image'
+  if (VIDEO_EXTS.includes(ext)) return 'video'
+  return null
+}
+
+function addFiles(newFiles: DroppedFile[]) {
+  for (const { file, path } of newFiles) {
+    const type = getFileType(file.name)
+    if (type && !files.some(f => f.path === path)) {
+      files.push({
+        file,
+        name: file.name,
+        path,
+        type,
+        status: 'pending',
+        progress: 0
+      })
+    }
+  }
+
+  if (files.length > 0) {
+    document.getElementById('drop-zone')?.classList.add('hidden')
+    document.getElementById('file-list')?.classList.remove('hidden')
+    renderFiles()
+  }
+}
+
+function getDirectory(path: string): string {
+  return path.slice(0, path.lastIndexOf('/') + 1)
+}
+
+function getOutputPath(item: FileItem): string {
+  return getDirectory(item.path) + item.outputName
+}
+
+// Every file a converted item produces, relative to the output root
+function getOutputEntries(item: FileItem): { path: string; blob: Blob }[] {
+  if (item.variants) {
+    return item.variants.map(v => ({ path: getDirectory(item.path) + v.name, blob: v.blob }))
+  }
+  const entries = item.outputBlob && item.outputName ? [{ path: getOutputPath(item), blob: item.outputBlob }] : []
+  if (item.poster) entries.push({ path: getDirectory(item.path) + item.poster.name, blob: item.poster.blob })
+  return entries
+}
+
+function getManifestSources(): ManifestSource[] {
+  return files
+    .filter(f => f.status === 'done' && f.variants)
+    .map(f => ({ source: f.path, directory: getDirectory(f.path), variants: f.variants! }))
+}
+
+function setupFileActions() {
+  const container = document.getElementById('files-container')!
+
+  container.addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')
+    const entry = btn?.closest<HTMLElement>('.file-entry')
+    if (!btn || !entry) return
+    const index = parseInt(entry.dataset.index!)
+    const item = files[index]
+
+    switch (btn.dataset.action) {
+      case 'settings': {
+        const previous = editingIndex
+        editingIndex = editingIndex === index ? null : index
+        if (previous !== null && previous !== index) renderFileRow(files[previous])
+        renderFileRow(item)
+        break
+      }
+      case 'info':
+        item.inspecting = !item.inspecting
+        if (item.inspecting && !item.info && !item.infoError) inspectItem(item)
+        renderFileRow(item)
+        break
+      case 'preview':
+        if (item.previewing) {
+          closePreview(item)
+        } else {
+          item.previewing = true
+        }
+        renderFileRow(item)
+        break
+      case 'trim-start':
+      case 'trim-end':
+      case 'poster-time':
+      case 'trim-clear':
+        setTrimPoint(item, entry, btn.dataset.action)
+        break
+      case 'reset-overrides':
+        item.overrides = undefined
+        renderFileRow(item)
+        break
+      case 'cancel':
+        cancelItem(item)
+        break
+      case 'retry':
+        resetItem(item)
+        if (isProcessing) {
+          renderFileRow(item)
+        } else {
+          startConversion()
+        }
+        break
+      case 'compare':
+        if (!item.outputBlob) return
+        openCompareViewer({
+          name: item.name,
+          type: item.type,
+          original: item.file,
+          output: item.outputBlob,
+          offset: item.trim?.start,
+        })
+        break
+      case 'download':
+        downloadFile(item)
+        break
+    }
+  })
+
+  // Media events don't bubble, so the preview's duration is caught on the way down
+  container.addEventListener('loadedmetadata', (e) => {
+    const entry = (e.target as HTMLElement).closest<HTMLElement>('.file-entry')
+    if (!entry || !(e.target instanceof HTMLVideoElement)) return
+    files[parseInt(entry.dataset.index!)].duration = e.target.duration
+  }, true)
+
+  container.addEventListener('change', (e) => {
+    const entry = (e.target as HTMLElement).closest<HTMLElement>('.file-entry')
+    const update = readSettingInput(e.target as HTMLInputElement | HTMLSelectElement)
+    if (!entry || !update) return
+    const item = files[parseInt(entry.dataset.index!)]
+    item.overrides = { ...item.overrides, ...update }
+    renderFileRow(item)
+  })
+}
+
+function setTrimPoint(item: FileItem, entry: HTMLElement, action: string) {
+  const video = entry.querySelector<HTMLVideoElement>('.file-preview video')
+  const duration = item.duration ?? video?.duration
+  if (!video || !duration || !Number.isFinite(duration)) return
+  const time = video.currentTime
+  const trim = item.trim ?? { start: 0, end: duration }
+
+  if (action === 'trim-start') {
+    trim.start = time
+    if (trim.end <= time) trim.end = duration
+  } else if (action === 'trim-end') {
+    trim.end = time
+    if (trim.start >= time) trim.start = 0
+  } else if (action === 'poster-time') {
+    item.posterTime = time
+  } else {
+    item.trim = undefined
+    item.posterTime = undefined
+  }
+  if (action === 'trim-start' || action === 'trim-end') {
+    // A range covering the whole video is no trim at all
+    item.trim = trim.start > 0 || trim.end < duration ? trim : undefined
+  }
+
+  // Re-rendering the row would reload the player, so only the label changes
+  const label = entry.querySelector('.trim-summary')
+  if (label) label.textContent = formatTrim(item)
+  entry.querySelector('[data-action="preview"]')?.classList.toggle('active', !!item.trim || item.posterTime !== undefined)
+}
+
+function formatTime(seconds: number): string {
+  return `${formatDuration(Math.floor(seconds))}.${Math.floor((seconds % 1) * 10)}`
+}
+
+function formatTrim(item: FileItem): string {
+  const parts = [item.trim ? `${formatTime(item.trim.start)} – ${formatTime(item.trim.end)}` : 'Full length']
+  if (item.posterTime !== undefined) parts.push(`poster at ${formatTime(item.posterTime)}`)
+  return parts.join(' · ')
+}
+
+function getPreviewUrl(item: FileItem): string {
+  let url = previewUrls.get(item)
+  if (!url) {
+    url = URL.createObjectURL(item.file)
+    previewUrls.set(item, url)
+  }
+  return url
+}
+
+function closePreview(item: FileItem) {
+  item.previewing = false
+  const url = previewUrls.get(item)
+  if (url) URL.revokeObjectURL(url)
+  previewUrls.delete(item)
+}
+
+function closePreviews() {
+  for (const item of previewUrls.keys()) closePreview(item)
+}
+
+function renderFiles() {
+  const container = document.getElementById('files-container')!
+  container.innerHTML = files.map(renderFileEntry).join('')
+  renderSummary()
+}
+
+function renderFileRow(item: FileItem) {
+  const index = files.indexOf(item)
+  const entry = document.querySelector(`.file-entry[data-index="${index}"]`)
+  if (!entry) return
+  entry.outerHTML = renderFileEntry(item, index)
+  renderSummary()
+}
+
+// Progress events only touch the row's bar and the batch stats, never the list
+function updateFileProgress(item: FileItem) {
+  const index = files.indexOf(item)
+  const bar = document.querySelector<HTMLDivElement>(`.file-entry[data-index="${index}"] .mini-progress-bar`)
+  if (bar) bar.style.width = `${item.progress}%`
+  renderBatchProgress()
+}
+
+function renderSummary() {
+  const countEl = document.getElementById('file-count')!
+  const downloadBtn = document.getElementById('download-all-btn')!
+  const markupBtn = document.getElementById('markup-btn')!
+  const startBtn = document.getElementById('start-btn')!
+  const pauseBtn = document.getElementById('pause-btn')!
+  const cancelBtn = document.getElementById('cancel-btn')!
+  const retryBtn = document.getElementById('retry-btn')!
+
+  const images = files.filter(f => f.type === 'image').length
+  const videos = files.filter(f => f.type === 'video').length
+  const converted = files.filter(f => f.status === 'done' && f.outputBlob)
+  const originalTotal = converted.reduce((sum, f) => sum + f.file.size, 0)
+  const outputTotal = converted.reduce((sum, f) => sum + f.outputBlob!.size, 0)
+  countEl.textContent = `${files.length} files (${images} images, ${videos} videos)` + (converted.length
+    ? ` · ${formatBytes(originalTotal)} → ${formatBytes(outputTotal)} (${formatSavings(originalTotal, outputTotal)})`
+    : '')
+
+  const allDone = files.length > 0 && files.every(f => f.status === 'done')
+  downloadBtn.classList.toggle('hidden', !allDone)
+  downloadBtn.textContent = getOutputDir() ? 'Save All to Folder' : 'Download All (ZIP)'
+  markupBtn.classList.toggle('hidden', !files.some(f => f.status === 'done' && f.variants))
+  startBtn.classList.toggle('hidden', isProcessing || !files.some(f => f.status === 'pending'))
+  pauseBtn.classList.toggle('hidden', !isProcessing)
+  pauseBtn.textContent = isPaused ? 'Resume' : 'Pause'
+  cancelBtn.classList.toggle('hidden', !isProcessing)
+  retryBtn.classList.toggle('hidden', isProcessing || !files.some(f => f.status === 'error' || f.status === 'cancelled'))
+
+  renderBatchProgress()
+}
+
+function renderBatchProgress() {
+  const batchProgress = document.getElementById('batch-progress')
+  const bar = document.getElementById('batch-progress-bar')
+  const stats = document.getElementById('batch-stats')
+  if (!batchProgress || !bar || !stats) return
+
+  const items = files.filter(f => (batchItems.has(f) || (isProcessing && f.status === 'pending')) && f.status !== 'cancelled')
+  batchProgress.classList.toggle('hidden', items.length === 0)
+  if (items.length === 0) return
+
+  let totalBytes = 0
+  let processedBytes = 0
+  let finished = 0
+  for (const f of items) {
+    totalBytes += f.file.size
+    if (f.status === 'done' || f.status === 'error') {
+      processedBytes += f.file.size
+      finished++
+    } else if (f.status === 'processing') {
+      processedBytes += f.file.size * (f.progress / 100)
+    }
+  }
+
+  const fraction = totalBytes > 0 ? processedBytes / totalBytes : 0
+  const now = batchFinishedAt || performance.now()
+  const paused = pausedDuration + (isPaused && pausedAt ? now - pausedAt : 0)
+  const elapsed = Math.max(0, (now - batchStartedAt - paused) / 1000)
+  const throughput = elapsed > 0 ? processedBytes / elapsed : 0
+
+  bar.style.width = `${Math.round(fraction * 100)}%`
+  const parts = [`${finished}/${items.length} files`, `${formatDuration(elapsed)} elapsed`]
+  if (isProcessing && fraction > 0 && fraction < 1) {
+    parts.push(`~${formatDuration((elapsed * (1 - fraction)) / fraction)} left`)
+  }
+  if (throughput > 0) {
+    parts.push(`${formatBytes(Math.round(throughput))}/s`)
+  }
+  if (isPaused) parts.push(activeJobs.size ? `pausing, ${activeJobs.size} still finishing` : 'paused')
+  stats.textContent = parts.join(' · ')
+}
+
+function renderFileEntry(f: FileItem, i: number): string {
+  return `
+    <div class="file-entry" data-index="${i}">
+      <div class="file-item ${f.status}">
+        <span class="file-type ${f.type}">${f.type === 'image' ? '🖼' : '🎬'}</span>
+        <span class="file-name" title="${escapeHtml(f.path)}"><span class="file-dir">${escapeHtml(getDirectory(f.path))}</span>${escapeHtml(f.name)}</span>
+        <span class="file-arrow">→</span>
+        <span class="file-output">${f.variants ? `${f.variants.length} variants (${f.variants.map(v => v.width).join(', ')}px)` : escapeHtml(f.outputName || getOutputName(f.name, getOutputFormat(f.type, resolveSettings(stored.settings, f.overrides))))}</span>
+        <span class="file-size">
+          ${formatBytes(f.file.size)}
+          ${f.outputBlob ? ` → ${formatBytes(f.outputBlob.size)}
+            <span class="${f.keptOriginal ? 'size-kept' : f.outputBlob.size < f.file.size ? 'size-saved' : 'size-grew'}"
+              title="${f.keptOriginal ? 'Output was larger, original kept' : ''}">
+              ${f.keptOriginal ? 'original kept' : formatSavings(f.file.size, f.outputBlob.size)}
+            </span>` : ''}
+          ${f.targetSize ? renderTargetSize(f.targetSize) : ''}
+        </span>
+        <div class="file-status">
+          ${f.status === 'pending' ? '<span class="status-pending">Pending</span>' : ''}
+          ${f.status === 'processing' ? `<div class="mini-progress"><div class="mini-progress-bar" style="width: ${f.progress}%"></div></div>` : ''}
+          ${f.status === 'done' ? '<span class="status-done">✓</span>' : ''}
+          ${f.saved ? `<span class="status-saved ${f.saved}" title="${escapeHtml(f.savedPath ?? '')}">${f.saved === 'written' ? 'saved' : f.saved === 'skipped' ? 'exists' : 'not saved'}</span>` : ''}
+          ${f.status === 'error' ? `<span class="status-error" title="${escapeHtml(f.error ?? '')}">✗</span>` : ''}
+          ${f.status === 'cancelled' ? '<span class="status-pending">Cancelled</span>' : ''}
+        </div>
+        ${f.status === 'pending' || f.status === 'processing' ? '<button class="btn-cancel" data-action="cancel" title="Cancel">■</button>' : ''}
+        ${f.status === 'error' || f.status === 'cancelled' ? '<button class="btn-retry" data-action="retry" title="Retry">↻</button>' : ''}
+        ${f.status === 'pending' || f.status === 'error' || f.status === 'cancelled' ? `<button class="btn-settings${f.overrides ? ' active' : ''}" data-action="settings" title="File settings">⚙</button>` : ''}
+        ${f.type === 'video' && (f.status === 'pending' || f.status === 'error' || f.status === 'cancelled') ? `<button class="btn-settings${f.trim || f.posterTime !== undefined ? ' active' : ''}" data-action="preview" title="Trim and poster frame">✂</button>` : ''}
+        <button class="btn-settings${f.inspecting ? ' active' : ''}" data-action="info" title="Media info">ⓘ</button>
+        ${f.status === 'done' && f.outputBlob && !f.keptOriginal ? '<button class="btn-compare" data-action="compare" title="Compare">⇆</button>' : ''}
+        ${f.status === 'done' && f.outputBlob ? '<button class="btn-download" data-action="download">↓</button>' : ''}
+      </div>
+      ${editingIndex === i ? `
+        <div class="file-settings">
+          <div class="settings-fields">${renderSettingsFields(resolveSettings(stored.settings, f.overrides), f.overrides, f.type)}</div>
+          <button class="btn btn-small" data-action="reset-overrides">Use global settings</button>
+        </div>
+      ` : ''}
+      ${f.previewing ? `
+        <div class="file-preview">
+          <video src="${getPreviewUrl(f)}" controls preload="metadata"></video>
+          <div class="trim-controls">
+            <button class="btn btn-small" data-action="trim-start">Set start</button>
+            <button class="btn btn-small" data-action="trim-end">Set end</button>
+            <button class="btn btn-small" data-action="poster-time">Set poster</button>
+            <button class="btn btn-small" data-action="trim-clear">Reset</button>
+            <span class="trim-summary">${formatTrim(f)}</span>
+          </div>
+        </div>
+      ` : ''}
+      ${f.inspecting ? `
+        <div class="file-info">
+          ${f.info || f.infoError ? renderMediaInfo(f.info ?? null, f.exif ?? null) : '<p class="hint">Reading metadata...</p>'}
+          ${f.infoError ? `<p class="media-info-error">${escapeHtml(f.infoError)}</p>` : ''}
+        </div>
+      ` : ''}
+    </div>
+  `
+}
+
+function renderTargetSize(result: TargetSizeResult): string {
+  const details = [
+    `Achieved ${formatBytes(result.achieved)} of ${formatBytes(result.target)}`,
+    result.quality !== undefined ? `quality ${result.quality}` : '',
+    result.bitrate !== undefined ? `${result.bitrate} kbps` : '',
+  ].filter(Boolean).join(', ')
+  return `<span class="size-target ${result.met ? 'met' : 'missed'}" title="${details}">
+    ${result.met ? '≤' : '>'} ${formatBytes(result.target)}
+  </span>`
+}
+
+async function inspectItem(item: FileItem) {
+  const { signal } = lifecycle
+  let ffmpeg: FFmpeg | null = null
+  try {
+    item.exif = item.type === 'image' ? await readExif(item.file) : null
+    ffmpeg = await pool.acquire()
+    item.info = await probeMedia(ffmpeg, item.file)
+  } catch (err) {
+    console.error('Probe error:', err)
+    item.infoError = err instanceof Error ? `Could not probe file: ${err.message}` : 'Could not probe file'
+  } finally {
+    if (ffmpeg && signal.aborted) {
+      ffmpeg.terminate()
+    } else if (ffmpeg) {
+      pool.release(ffmpeg)
+    }
+  }
+  if (!signal.aborted) renderFileRow(item)
+}
+
+async function loadFFmpeg() {
+  if (pool.idleCount > 0) return
+
+  const loading = document.getElementById('loading-ffmpeg')!
+  loading.classList.remove('hidden')
+
+  try {
+    pool.release(await pool.acquire())
+    loading.classList.add('hidden')
+  } catch (err) {
+    console.error('FFmpeg load error:', err)
+    loading.classList.add('hidden')
+    throw err
+  }
+}
+
+async function startConversion() {
+  if (isProcessing) return
+  const { signal } = lifecycle
+  isProcessing = true
+  isPaused = false
+  editingIndex = null
+  closePreviews()
+  batchItems.clear()
+  batchStartedAt = performance.now()
+  batchFinishedAt = 0
+  pausedAt = 0
+  pausedDuration = 0
+  renderFiles()
+
+  try {
+    await loadFFmpeg()
+  } catch (err) {
+    if (signal.aborted) return
+    alert('Failed to load FFmpeg. Please try again.')
+    isProcessing = false
+    renderFiles()
+    return
+  }
+
+  // Items retried while the last runner was winding down need another pass
+  while (isProcessing && !signal.aborted && files.some(f => f.status === 'pending')) {
+    await Promise.all(Array.from({ length: concurrency }, () => runQueue(signal)))
+  }
+  if (signal.aborted) return
+
+  isProcessing = false
+  isPaused = false
+  batchFinishedAt = performance.now()
+  pool.trim(concurrency)
+  renderFiles()
+}
+
+async function runQueue(signal: AbortSignal) {
+  while (isProcessing && !signal.aborted) {
+    if (isPaused) {
+      await new Promise<void>(resolve => {
+        const previous = resumeBatch
+        resumeBatch = () => {
+          previous?.()
+          resolve()
+        }
+      })
+      continue
+    }
+
+    const file = files.find(f => f.status === 'pending')
+    if (!file) return
+
+    file.status = 'processing'
+    file.progress = 0
+    closePreview(file)
+    batchItems.add(file)
+    renderFileRow(file)
+
+    let ffmpeg: FFmpeg | null = null
+    try {
+      ffmpeg = await pool.acquire()
+      if (file.status !== 'processing' || signal.aborted) continue
+      activeJobs.set(file, ffmpeg)
+      await convertFile(file, ffmpeg)
+      file.status = 'done'
+      if (getOutputDir()) {
+        await saveToOutputDir(file)
+      }
+    } catch (err) {
+      // A cancelled item already has its final status; the rejection is just the terminated worker
+      if (file.status === 'processing') {
+        file.status = 'error'
+        file.error = err instanceof Error ? err.message : 'Conversion failed'
+        console.error('Conversion error:', err)
+      }
+    } finally {
+      activeJobs.delete(file)
+      startPausedClock()
+      if (ffmpeg && signal.aborted) {
+        ffmpeg.terminate()
+      } else if (ffmpeg) {
+        pool.release(ffmpeg)
+      }
+    }
+
+    renderFileRow(file)
+  }
+}
+
+function togglePause() {
+  if (!isProcessing) return
+  isPaused = !isPaused
+  if (isPaused) {
+    startPausedClock()
+  } else {
+    stopPausedClock()
+    resumeBatch?.()
+    resumeBatch = null
+  }
+  renderSummary()
+}
+
+// A running exec can't be suspended, so pausing only stops new files from
+// starting. The batch counts as paused once the running ones have finished.
+function startPausedClock() {
+  if (isPaused && activeJobs.size === 0 && !pausedAt) pausedAt = performance.now()
+}
+
+function stopPausedClock() {
+  if (pausedAt) pausedDuration += performance.now() - pausedAt
+  pausedAt = 0
+}
+
+function cancelItem(item: FileItem) {
+  if (item.status !== 'pending' && item.status !== 'processing') return
+  item.status = 'cancelled'
+  item.progress = 0
+  // Terminating the worker is the only way to stop a running exec; the pool replaces it
+  activeJobs.get(item)?.terminate()
+  renderFileRow(item)
+}
+
+function cancelBatch() {
+  if (!isProcessing) return
+  isProcessing = false
+  for (const item of activeJobs.keys()) {
+    cancelItem(item)
+  }
+  stopPausedClock()
+  isPaused = false
+  resumeBatch?.()
+  resumeBatch = null
+  renderFiles()
+}
+
+function resetItem(item: FileItem) {
+  item.status = 'pending'
+  item.progress = 0
+  item.error = undefined
+  item.outputBlob = undefined
+  item.outputName = undefined
+  item.variants = undefined
+  item.poster = undefined
+  item.targetSize = undefined
+  item.keptOriginal = undefined
+  item.saved = undefined
+  item.savedPath = undefined
+}
+
+async function convertFile(item: FileItem, ffmpeg: FFmpeg) {
+  const settings = resolveSettings(stored.settings, item.overrides)
+  const format = getOutputFormat(item.type, settings)
+  const inputName = 'input_' + item.file.name.replace(/[^a-zA-Z0-9.]/g, '_')
+  const outputName = getOutputName(item.name, format)
+  const outputFileName = getRenderName('output', format)
+
+  item.outputName = outputName
+  if (isCanvasEncoded(format) && !(await canEncodeImage(format.mime))) {
+    throw new Error(`${format.label} encoding isn't supported by this browser`)
+  }
+
+  const fileData = await fetchFile(item.file)
+  // Pooled instances are reused, so nothing may be left behind, whatever fails
+  try {
+    await ffmpeg.writeFile(inputName, fileData)
+
+    const exif = item.type === 'image' ? await readExif(item.file) : null
+    const orientation = exif?.orientation
+    const trim = item.type === 'video' ? item.trim : undefined
+    // FFmpeg reports progress against the full input duration
+    const progressScale = trim && item.duration ? item.duration / (trim.end - trim.start) : 1
+
+    const targetBytes = settings.targetSize * 1024
+    let searchedQuality: number | undefined
+    let targetBitrate: number | undefined
+
+    const run = async (args: string[], onProgress: (ratio: number) => void) => {
+      const exitCode = await execWithProgress(ffmpeg, args, onProgress)
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} (${format.label} may be unsupported by this build)`)
+      }
+    }
+
+    const encode = async (onProgress: (ratio: number) => void, encodeSettings = settings, options: BuildOptions = {}) => {
+      await run(buildArgs(inputName, outputFileName, item.type, encodeSettings, { orientation, trim, ...options }), onProgress)
+      const blob = await readImageOutput(ffmpeg, outputFileName, format, encodeSettings.quality)
+      // FFmpeg never writes EXIF for images, so preserving means copying it back
+      return exif && settings.metadata === 'preserve' ? embedExif(blob, resetOrientation(exif)) : blob
+    }
+
+    // Every variant gets its own search, since each one has to fit on its own
+    const encodeImage = async (resize: string[] | undefined, onProgress: (ratio: number) => void) => {
+      // PNG is lossless, so there is no quality to trade
+      if (!targetBytes || format.id === 'png') return encode(onProgress, settings, { resize })
+      const result = await searchQuality(
+        settings.quality,
+        targetBytes,
+        quality => encode(() => {}, { ...settings, quality }, { resize }),
+        (step, steps) => onProgress(step / steps)
+      )
+      searchedQuality = Math.min(searchedQuality ?? 100, result.quality)
+      return result.blob
+    }
+
+    const encodeVideo = async () => {
+      const progress = (offset: number, share: number) => (ratio: number) => {
+        item.progress = Math.round((offset + Math.min(1, ratio * progressScale) * share) * 100)
+        updateFileProgress(item)
+      }
+      // Animations have no bitrate to aim with
+      if (!targetBytes || (format.id !== 'webm' && format.id !== 'mp4')) return encode(progress(0, 1))
+
+      const duration = trim ? trim.end - trim.start : (await probeInput(ffmpeg, inputName, item.file.size)).duration
+      if (!duration) throw new Error('Could not read the video duration to size the output')
+      targetBitrate = targetVideoBitrate(targetBytes, duration, settings.audio ? settings.audioBitrate : 0)
+      const sized = { ...settings, videoBitrate: targetBitrate }
+      if (format.id === 'mp4') return encode(progress(0, 1), sized)
+
+      // VP9 lands much closer to the bitrate when the first pass has mapped out the video
+      try {
+        await run(buildArgs(inputName, outputFileName, 'video', sized, { trim, pass: 1 }), progress(0, 0.5))
+        return await encode(progress(0.5, 0.5), sized, { pass: 2 })
+      } finally {
+        // The log is missing if the first pass failed early, and pooled instances are reused
+        await ffmpeg.deleteFile(`${PASS_LOG_PREFIX}-0.log`).catch(() => {})
+      }
+    }
+
+    const targets = item.type === 'image' && hasResizeRules(settings)
+      ? await planImageResize(ffmpeg, inputName, item.file.size, settings, format, orientation ?? 1)
+      : null
+
+    if (targets) {
+      const widths = parseWidths(settings.widths).length > 0
+      const variants: OutputVariant[] = []
+      for (const [i, target] of targets.entries()) {
+        const blob = await encodeImage(target.filters, (ratio) => {
+          item.progress = Math.round(((i + ratio) / targets.length) * 100)
+          updateFileProgress(item)
+        })
+        const name = widths ? getOutputName(item.name, format, target.width) : outputName
+        variants.push({ name, width: target.width, height: target.height, blob })
+      }
+      // A crop without a width list is still a single plain output
+      const largest = variants[variants.length - 1]
+      item.outputBlob = largest.blob
+      item.outputName = largest.name
+      item.variants = widths ? variants : undefined
+      if (targetBytes) {
+        const achieved = Math.max(...variants.map(v => v.blob.size))
+        item.targetSize = { target: targetBytes, achieved, met: achieved <= targetBytes, quality: searchedQuality }
+      }
+      return
+    }
+
+    if (item.type === 'video') {
+      item.outputBlob = await encodeVideo()
+    } else {
+      item.outputBlob = await encodeImage(undefined, (ratio) => {
+        item.progress = Math.round(ratio * 100)
+        updateFileProgress(item)
+      })
+    }
+    if (item.type === 'video' && settings.poster) {
+      item.poster = await exportPoster(ffmpeg, inputName, item, settings)
+    }
+
+    // Keeping the original would also keep whatever metadata it carries, and
+    // it is no stand-in for a trimmed clip. A kept original keeps its own name
+    // and extension, so it may be in another format than the rest of the batch.
+    const canKeepOriginal = (settings.metadata === 'preserve' || (item.type === 'image' && !exif)) && !trim
+    if (settings.keepOriginalIfLarger && canKeepOriginal && item.outputBlob.size >= item.file.size) {
+      item.outputBlob = item.file
+      item.outputName = item.name
+      item.keptOriginal = true
+    }
+    if (targetBytes) {
+      const achieved = item.outputBlob.size
+      item.targetSize = { target: targetBytes, achieved, met: achieved <= targetBytes, quality: searchedQuality, bitrate: targetBitrate }
+    }
+  } finally {
+    await removeOutput(ffmpeg, inputName)
+    await removeOutput(ffmpeg, outputFileName)
+  }
+}
+
+// Canvas-encoded formats come out of FFmpeg as PNG
+async function readImageOutput(ffmpeg: FFmpeg, path: string, format: OutputFormat, quality: number): Promise<Blob> {
+  if (!isCanvasEncoded(format)) return readOutputBlob(ffmpeg, path, format.mime)
+  return encodeCanvasImage(await readOutputBlob(ffmpeg, path, 'image/png'), format.mime, quality)
+}
+
+// Defaults to the first frame of the trimmed range
+async function exportPoster(ffmpeg: FFmpeg, inputName: string, item: FileItem, settings: ConversionSettings) {
+  const format = getOutputFormat('image', settings)
+  const output = getRenderName('poster', format)
+  const frame = item.posterTime ?? item.trim?.start ?? 0
+  try {
+    const exitCode = await ffmpeg.exec(buildArgs(inputName, output, 'image', settings, { frame }))
+    if (exitCode !== 0) throw new Error(`Poster export exited with code ${exitCode}`)
+
+    return { name: getOutputName(item.name, format, 'poster'), blob: await readImageOutput(ffmpeg, output, format, settings.quality) }
+  } finally {
+    await removeOutput(ffmpeg, output)
+  }
+}
+
+// Planning needs the upright dimensions of the source, which FFmpeg only
+// knows before the orientation is applied.
+async function planImageResize(
+  ffmpeg: FFmpeg,
+  inputName: string,
+  size: number,
+  settings: ConversionSettings,
+  format: OutputFormat,
+  orientation: number
+): Promise<ResizeTarget[] | null> {
+  const info = await probeInput(ffmpeg, inputName, size)
+  const stream = info.streams.find(s => s.type === 'video')
+  if (!stream?.width || !stream.height) throw new Error('Could not read image dimensions')
+  const source = orientation >= 5
+    ? { width: stream.height, height: stream.width }
+    : { width: stream.width, height: stream.height }
+  return planResize(source, settings, !!format.alpha)
+}
+
+async function downloadFile(item: FileItem) {
+  if (!item.outputBlob || !item.outputName) return
+  const outputs = getOutputEntries(item)
+  if (outputs.length > 1) {
+    const directory = getDirectory(item.path)
+    const entries = outputs.map(({ path, blob }) => ({ path: path.slice(directory.length), data: blob, lastModified: item.file.lastModified }))
+    try {
+      await downloadZip(item.name.replace(/\.[^.]+$/, '') + '.zip', entries)
+    } catch (err) {
+      console.error('ZIP error:', err)
+      alert('Failed to create ZIP archive.')
+    }
+    return
+  }
+  const a = document.createElement('a')
+  a.href = URL.createObjectURL(item.outputBlob)
+  a.download = item.outputName
+  a.click()
+  URL.revokeObjectURL(a.href)
+}
+
+async function saveToOutputDir(item: FileItem) {
+  const entries = getOutputEntries(item)
+  if (entries.length === 0) return
+  item.savedPath = getOutputPath(item)
+  try {
+    // A variant set only counts as written when none of it was skipped
+    let skipped = false
+    for (const entry of entries) {
+      const written = await writeToOutputDir(entry.path, entry.blob)
+      if (!written) skipped = true
+      else if (entry.path === item.savedPath) item.savedPath = written
+    }
+    item.saved = skipped ? 'skipped' : 'written'
+  } catch (err) {
+    console.error('Write error:', err)
+    item.saved = 'failed'
+  }
+}
+
+function getManifestEntries(): { path: string; blob: Blob }[] {
+  const sources = getManifestSources()
+  if (sources.length === 0) return []
+  return [
+    { path: MANIFEST_NAME, blob: new Blob([buildManifest(sources)], { type: 'application/json' }) },
+    { path: MARKUP_NAME, blob: new Blob([buildPictureMarkup(sources)], { type: 'text/html' }) },
+  ]
+}
+
+async function downloadAll() {
+  if (getOutputDir()) {
+    for (const file of files) {
+      if (file.status === 'done' && file.saved !== 'written') {
+        await saveToOutputDir(file)
+      }
+    }
+    for (const entry of getManifestEntries()) {
+      try {
+        await writeToOutputDir(entry.path, entry.blob)
+      } catch (err) {
+        console.error('Write error:', err)
+      }
+    }
+    renderFiles()
+    return
+  }
+
+  const downloadBtn = document.getElementById('download-all-btn') as HTMLButtonElement
+  const entries: ZipEntry[] = files
+    .filter(f => f.status === 'done')
+    .flatMap(f => getOutputEntries(f).map(({ path, blob }) => ({
+      path,
+      data: blob,
+      lastModified: f.file.lastModified,
+    })))
+  if (entries.length === 0) return
+  entries.push(...getManifestEntries().map(({ path, blob }) => ({ path, data: blob })))
+
+  downloadBtn.disabled = true
+  try {
+    await downloadZip('optimized-media.zip', entries, (done, total) => {
+      downloadBtn.textContent = `Zipping ${done}/${total}...`
+    })
+  } catch (err) {
+    console.error('ZIP error:', err)
+    alert('Failed to create ZIP archive.')
+  } finally {
+    downloadBtn.disabled = false
+    renderFiles()
+  }
+}
@@ -0,0 +1,90 @@
+import { openModal } from '../../lib/dialog'
+import { escapeHtml } from '../../lib/format'
+
+export interface OutputVariant {
+  name: string
+  width: number
+  height: number
+  blob: Blob
+}
+
+export interface ManifestSource {
+  // Paths are relative to the root of the download or output folder
+  source: string
+  directory: string
+  variants: OutputVariant[]
+}
+
+export const MANIFEST_NAME = 'responsive-images.json'
+export const MARKUP_NAME = 'responsive-images.html'
+
+export function buildManifest(sources: ManifestSource[]): string {
+  const images = sources.map(({ source, directory, variants }) => ({
+    source,
+    variants: variants.map(v => ({
+      path: directory + v.name,
+      width: v.width,
+      height: v.height,
+      size: v.blob.size,
+      type: v.blob.type,
+    })),
+  }))
+  return JSON.stringify({ images }, null, 2) + '\n'
+}
+
+// One <picture> per source. The largest variant doubles as the fallback src and
+// gives the browser the intrinsic aspect ratio.
+export function buildPictureMarkup(sources: ManifestSource[], sizes = '100vw'): string {
+  return sources.map(({ source, directory, variants }) => {
+    const srcset = variants.map(v => `${directory}${v.name} ${v.width}w`).join(', ')
+    const largest = variants[variants.length - 1]
+    return [
+      `<!-- ${source.replace(/--/g, '-')} -->`,
+      '<picture>',
+      `  <source type="${largest.blob.type}" srcset="${escapeHtml(srcset)}" sizes="${sizes}" />`,
+      `  <img src="${escapeHtml(directory + largest.name)}" width="${largest.width}" height="${largest.height}" alt="" loading="lazy" decoding="async" />`,
+      '</picture>',
+    ].join('\n')
+  }).join('\n\n') + '\n'
+}
+
+export function openMarkupDialog(sources: ManifestSource[]) {
+  const { overlay, close } = openModal(`
+    <div class="modal-dialog markup-dialog">
+      <h3>Responsive image markup</h3>
+      <label class="setting-field">
+        <span>sizes</span>
+        <input type="text" data-field="sizes" value="100vw" />
+      </label>
+      <textarea class="markup-output" readonly spellcheck="false"></textarea>
+      <div class="modal-actions">
+        <button type="button" class="btn" data-action="copy">Copy</button>
+        <button type="button" class="btn btn-primary" data-action="close">Close</button>
+      </div>
+    </div>
+  `)
+  const sizesInput = overlay.querySelector<HTMLInputElement>('[data-field="sizes"]')!
+  const output = overlay.querySelector('textarea')!
+  const copyBtn = overlay.querySelector<HTMLButtonElement>('[data-action="copy"]')!
+
+  const render = () => {
+    output.value = buildPictureMarkup(sources, escapeHtml(sizesInput.value.trim() || '100vw'))
+  }
+
+  overlay.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement
+    if (target.closest('[data-action="copy"]')) {
+      try {
+        await navigator.clipboard.writeText(output.value)
+        copyBtn.textContent = 'Copied'
+      } catch {
+        // Clipboard access can be denied; the text is selected for a manual copy instead
+        output.select()
+      }
+    }
+  })
+  sizesInput.addEventListener('input', render)
+
+  render()
+  return close
+}
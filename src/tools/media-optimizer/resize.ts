@@ -0,0 +1,121 @@
+import type { ConversionSettings } from './settings'
+
+export type FitMode = 'fit' | 'cover' | 'contain'
+export type CropAspect = '' | '1:1' | '4:3' | '3:2' | '16:9' | '4:5' | '2:3' | '9:16'
+
+export interface ResizeTarget {
+  width: number
+  height: number
+  filters: string[]
+}
+
+export const FIT_MODES: { id: FitMode; label: string }[] = [
+  { id: 'fit', label: 'Fit (no crop)' },
+  { id: 'cover', label: 'Cover (crop)' },
+  { id: 'contain', label: 'Contain (pad)' },
+]
+
+export const CROP_ASPECTS: { id: CropAspect; label: string }[] = [
+  { id: '', label: 'Original' },
+  { id: '1:1', label: '1:1' },
+  { id: '4:3', label: '4:3' },
+  { id: '3:2', label: '3:2' },
+  { id: '16:9', label: '16:9' },
+  { id: '4:5', label: '4:5' },
+  { id: '2:3', label: '2:3' },
+  { id: '9:16', label: '9:16' },
+]
+
+// Anything past this is almost certainly a typo
+const MAX_VARIANT_WIDTH = 16384
+
+export function parseWidths(value: string): number[] {
+  const widths = value
+    .split(/[\s,;]+/)
+    .map(Number)
+    .filter(width => Number.isInteger(width) && width > 0 && width <= MAX_VARIANT_WIDTH)
+  return [...new Set(widths)].sort((a, b) => a - b)
+}
+
+function parseAspect(aspect: CropAspect): number | null {
+  const [w, h] = aspect.split(':').map(Number)
+  return w > 0 && h > 0 ? w / h : null
+}
+
+export function hasResizeRules(settings: ConversionSettings): boolean {
+  return parseWidths(settings.widths).length > 0 || parseAspect(settings.cropAspect) !== null
+}
+
+// Returns null when the plain max-resolution scaling applies. Otherwise there
+// is one target per variant width (or a single one for an aspect crop), never
+// upscaled, with widths that collapse onto the same output size dropped.
+export function planResize(
+  source: { width: number; height: number },
+  settings: ConversionSettings,
+  transparent: boolean
+): ResizeTarget[] | null {
+  const widths = parseWidths(settings.widths)
+  const ratio = parseAspect(settings.cropAspect)
+  if (widths.length === 0 && !ratio) return null
+
+  const requested = widths.length > 0
+    ? widths
+    : [limitWidth(source, ratio!, settings.maxResolution)]
+  const targets: ResizeTarget[] = []
+  for (const width of requested) {
+    const target = planTarget(source, width, ratio, settings, transparent)
+    if (!targets.some(t => t.width === target.width)) targets.push(target)
+  }
+  return targets
+}
+
+// An aspect crop without variant widths still honours the max dimension
+function limitWidth(source: { width: number; height: number }, ratio: number, maxResolution: number): number {
+  const width = Math.min(source.width, source.height * ratio)
+  if (maxResolution <= 0) return Math.round(width)
+  return Math.round(Math.min(width, maxResolution, maxResolution * ratio))
+}
+
+function planTarget(
+  source: { width: number; height: number },
+  width: number,
+  ratio: number | null,
+  settings: ConversionSettings,
+  transparent: boolean
+): ResizeTarget {
+  const size = (w: number, h: number) => ({ width: Math.max(1, Math.round(w)), height: Math.max(1, Math.round(h)) })
+
+  if (!ratio || settings.fit === 'fit') {
+    const scale = Math.min(1, width / source.width, ratio ? width / ratio / source.height : Infinity)
+    const out = size(source.width * scale, source.height * scale)
+    return { ...out, filters: [`scale=${out.width}:${out.height}`] }
+  }
+
+  if (settings.fit === 'cover') {
+    const cropWidth = Math.min(source.width, source.height * ratio)
+    const cropHeight = cropWidth / ratio
+    const clamp = (value: number, max: number) => Math.round(Math.max(0, Math.min(max, value)))
+    const x = clamp((source.width * settings.focalX) / 100 - cropWidth / 2, source.width - cropWidth)
+    const y = clamp((source.height * settings.focalY) / 100 - cropHeight / 2, source.height - cropHeight)
+    const scale = Math.min(1, width / cropWidth)
+    const out = size(cropWidth * scale, cropHeight * scale)
+    return {
+      ...out,
+      filters: [`crop=${Math.round(cropWidth)}:${Math.round(cropHeight)}:${x}:${y}`, `scale=${out.width}:${out.height}`],
+    }
+  }
+
+  // Contain: the smallest box of the right shape around the source caps the size
+  const box = size(Math.min(width, Math.max(source.width, source.height * ratio)), 0)
+  box.height = Math.max(1, Math.round(box.width / ratio))
+  const scale = Math.min(box.width / source.width, box.height / source.height)
+  const out = size(source.width * scale, source.height * scale)
+  const x = Math.floor((box.width - out.width) / 2)
+  const y = Math.floor((box.height - out.height) / 2)
+  return {
+    ...box,
+    filters: transparent
+      ? [`scale=${out.width}:${out.height}`, 'format=rgba', `pad=${box.width}:${box.height}:${x}:${y}:color=black@0`]
+      : [`scale=${out.width}:${out.height}`, `pad=${box.width}:${box.height}:${x}:${y}:color=white`],
+  }
+}
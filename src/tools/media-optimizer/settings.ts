@@ -0,0 +1,236 @@
+import { escapeHtml } from '../../lib/format'
+import { loadSettings, saveSettings } from '../../lib/storage'
+import { VIDEO_FORMATS, type VideoFormat } from '../../lib/video-encoding'
+import { IMAGE_FORMATS, type ImageFormat } from './formats'
+import { CROP_ASPECTS, type CropAspect, FIT_MODES, type FitMode } from './resize'
+
+export interface ConversionSettings {
+  imageFormat: ImageFormat
+  videoFormat: VideoFormat
+  quality: number
+  maxResolution: number
+  frameRate: number
+  audio: boolean
+  videoBitrate: number
+  audioBitrate: number
+  keepOriginalIfLarger: boolean
+  // Upper bound on each output in KB, 0 = off. Overrides quality and video bitrate.
+  targetSize: number
+  metadata: MetadataMode
+  // Exports a still in the image format next to each converted video
+  poster: boolean
+  // Comma-separated output widths; each one becomes a separate image variant
+  widths: string
+  cropAspect: CropAspect
+  fit: FitMode
+  // Point kept in frame when cropping, as a percentage of width and height
+  focalX: number
+  focalY: number
+}
+
+export type MetadataMode = 'strip' | 'preserve'
+
+export interface Preset {
+  id: string
+  name: string
+  settings: ConversionSettings
+  builtIn?: boolean
+}
+
+interface StoredSettings {
+  presetId: string
+  settings: ConversionSettings
+  customPresets: Preset[]
+}
+
+const STORAGE_KEY = 'media-optimizer:settings'
+const CONCURRENCY_STORAGE_KEY = 'media-optimizer:concurrency'
+
+export const MAX_CONCURRENCY = 8
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'default',
+    name: 'Default',
+    builtIn: true,
+    settings: { imageFormat: 'webp', videoFormat: 'webm', quality: 80, maxResolution: 0, frameRate: 0, audio: true, videoBitrate: 0, audioBitrate: 128, keepOriginalIfLarger: false, targetSize: 0, metadata: 'strip', poster: false, widths: '', cropAspect: '', fit: 'cover', focalX: 50, focalY: 50 },
+  },
+  {
+    id: 'web-hero',
+    name: 'Web hero',
+    builtIn: true,
+    settings: { imageFormat: 'webp', videoFormat: 'mp4', quality: 82, maxResolution: 1920, frameRate: 30, audio: false, videoBitrate: 0, audioBitrate: 96, keepOriginalIfLarger: true, targetSize: 0, metadata: 'strip', poster: true, widths: '', cropAspect: '', fit: 'cover', focalX: 50, focalY: 50 },
+  },
+  {
+    id: 'thumbnail',
+    name: 'Thumbnail',
+    builtIn: true,
+    settings: { imageFormat: 'webp', videoFormat: 'webp', quality: 65, maxResolution: 480, frameRate: 24, audio: false, videoBitrate: 0, audioBitrate: 64, keepOriginalIfLarger: false, targetSize: 0, metadata: 'strip', poster: false, widths: '', cropAspect: '', fit: 'cover', focalX: 50, focalY: 50 },
+  },
+  {
+    id: 'responsive',
+    name: 'Responsive images',
+    builtIn: true,
+    settings: { imageFormat: 'webp', videoFormat: 'webm', quality: 78, maxResolution: 0, frameRate: 0, audio: true, videoBitrate: 0, audioBitrate: 128, keepOriginalIfLarger: false, targetSize: 0, metadata: 'strip', poster: false, widths: '480, 960, 1920', cropAspect: '', fit: 'cover', focalX: 50, focalY: 50 },
+  },
+  {
+    id: 'archive',
+    name: 'Archive',
+    builtIn: true,
+    settings: { imageFormat: 'png', videoFormat: 'webm', quality: 95, maxResolution: 0, frameRate: 0, audio: true, videoBitrate: 0, audioBitrate: 192, keepOriginalIfLarger: false, targetSize: 0, metadata: 'preserve', poster: false, widths: '', cropAspect: '', fit: 'cover', focalX: 50, focalY: 50 },
+  },
+]
+
+// Preserved EXIF is only written back into JPEG, PNG and WebP images
+const METADATA_MODES: { id: MetadataMode; label: string }[] = [
+  { id: 'strip', label: 'Strip (GPS, camera, dates)' },
+  { id: 'preserve', label: 'Preserve' },
+]
+
+interface SettingField {
+  key: keyof ConversionSettings
+  label: string
+  unit?: string
+  min?: number
+  max?: number
+  options?: { id: string; label: string }[]
+  placeholder?: string
+  appliesTo?: 'image' | 'video'
+}
+
+export const SETTING_FIELDS: SettingField[] = [
+  { key: 'imageFormat', label: 'Image format', options: IMAGE_FORMATS, appliesTo: 'image' },
+  { key: 'videoFormat', label: 'Video format', options: VIDEO_FORMATS, appliesTo: 'video' },
+  { key: 'quality', label: 'Quality', min: 0, max: 100 },
+  { key: 'maxResolution', label: 'Max resolution', unit: 'px', min: 0 },
+  { key: 'frameRate', label: 'Frame rate', unit: 'fps', min: 0, max: 120, appliesTo: 'video' },
+  { key: 'audio', label: 'Audio', appliesTo: 'video' },
+  { key: 'videoBitrate', label: 'Video bitrate', unit: 'kbps', min: 0, appliesTo: 'video' },
+  { key: 'audioBitrate', label: 'Audio bitrate', unit: 'kbps', min: 8, max: 510, appliesTo: 'video' },
+  { key: 'poster', label: 'Poster frame', appliesTo: 'video' },
+  { key: 'targetSize', label: 'Target size', unit: 'KB', min: 0 },
+  { key: 'keepOriginalIfLarger', label: 'Keep original if larger' },
+  { key: 'metadata', label: 'Metadata', options: METADATA_MODES },
+  { key: 'widths', label: 'Variant widths', unit: 'px', placeholder: 'e.g. 480, 960, 1920', appliesTo: 'image' },
+  { key: 'cropAspect', label: 'Aspect ratio', options: CROP_ASPECTS, appliesTo: 'image' },
+  { key: 'fit', label: 'Fit', options: FIT_MODES, appliesTo: 'image' },
+  { key: 'focalX', label: 'Focal point X', unit: '%', min: 0, max: 100, appliesTo: 'image' },
+  { key: 'focalY', label: 'Focal point Y', unit: '%', min: 0, max: 100, appliesTo: 'image' },
+]
+
+export function loadStoredSettings(): StoredSettings {
+  const fallback: StoredSettings = {
+    presetId: BUILT_IN_PRESETS[0].id,
+    settings: { ...BUILT_IN_PRESETS[0].settings },
+    customPresets: [],
+  }
+
+  const stored = loadSettings(STORAGE_KEY, fallback)
+  return {
+    presetId: stored.presetId,
+    settings: { ...fallback.settings, ...stored.settings },
+    // Presets saved before a setting existed pick up its default
+    customPresets: Array.isArray(stored.customPresets)
+      ? stored.customPresets.map(p => ({ ...p, settings: { ...fallback.settings, ...p.settings } }))
+      : [],
+  }
+}
+
+export function saveStoredSettings(stored: StoredSettings) {
+  saveSettings(STORAGE_KEY, stored)
+}
+
+export function loadConcurrency(): number {
+  const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY))
+  if (stored >= 1 && stored <= MAX_CONCURRENCY) return Math.round(stored)
+  // Every instance holds its own copy of the wasm heap, so stay conservative by default
+  return Math.max(1, Math.min(4, Math.floor((navigator.hardwareConcurrency || 2) / 2)))
+}
+
+export function saveConcurrency(value: number) {
+  localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value))
+}
+
+export function resolveSettings(global: ConversionSettings, overrides?: Partial<ConversionSettings>): ConversionSettings {
+  return { ...global, ...overrides }
+}
+
+// Formats the browser turned out unable to encode stay listed, but can't be picked
+const unavailableFormats = new Set<string>()
+
+export function markFormatUnavailable(id: string) {
+  unavailableFormats.add(id)
+}
+
+export function renderSettingsFields(
+  settings: ConversionSettings,
+  overrides?: Partial<ConversionSettings>,
+  type?: 'image' | 'video'
+): string {
+  const fields = SETTING_FIELDS.filter(field => !type || !field.appliesTo || field.appliesTo === type)
+  return fields.map(field => {
+    const value = settings[field.key]
+    const overridden = overrides && field.key in overrides ? ' overridden' : ''
+    if (field.options) {
+      return `
+        <label class="setting-field${overridden}">
+          <span>${field.label}</span>
+          <select data-setting="${field.key}">
+            ${field.options.map(o => {
+              const unavailable = unavailableFormats.has(o.id)
+              return `<option value="${o.id}"${o.id === value ? ' selected' : ''}${unavailable ? ' disabled' : ''}>${o.label}${unavailable ? ' (not supported by this browser)' : ''}</option>`
+            }).join('')}
+          </select>
+        </label>
+      `
+    }
+    if (typeof value === 'boolean') {
+      return `
+        <label class="setting-field${overridden}">
+          <span>${field.label}</span>
+          <input type="checkbox" data-setting="${field.key}" ${value ? 'checked' : ''} />
+        </label>
+      `
+    }
+    if (typeof value === 'string') {
+      return `
+        <label class="setting-field${overridden}">
+          <span>${field.label}${field.unit ? ` (${field.unit})` : ''}</span>
+          <input type="text" data-setting="${field.key}" value="${escapeHtml(value)}" placeholder="${field.placeholder ?? ''}" />
+        </label>
+      `
+    }
+    return `
+      <label class="setting-field${overridden}">
+        <span>${field.label}${field.unit ? ` (${field.unit})` : ''}</span>
+        <input type="number" data-setting="${field.key}" value="${value}"
+          ${field.min !== undefined ? `min="${field.min}"` : ''}
+          ${field.max !== undefined ? `max="${field.max}"` : ''} />
+      </label>
+    `
+  }).join('')
+}
+
+export function readSettingInput(input: HTMLInputElement | HTMLSelectElement): Partial<ConversionSettings> | null {
+  const key = input.dataset.setting as keyof ConversionSettings | undefined
+  const field = SETTING_FIELDS.find(f => f.key === key)
+  if (!key || !field) return null
+
+  if (field.options) {
+    return field.options.some(o => o.id === input.value) ? { [key]: input.value } : null
+  }
+
+  if (input instanceof HTMLInputElement && input.type === 'checkbox') {
+    return { [key]: input.checked }
+  }
+
+  if (input instanceof HTMLInputElement && input.type === 'text') {
+    return { [key]: input.value.trim() }
+  }
+
+  const value = Number(input.value)
+  if (!Number.isFinite(value)) return null
+  const min = field.min ?? 0
+  const max = field.max ?? Number.MAX_SAFE_INTEGER
+  return { [key]: Math.max(min, Math.min(max, Math.round(value))) }
+}
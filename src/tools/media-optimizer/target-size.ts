@@ -0,0 +1,55 @@
+export interface TargetSizeResult {
+  target: number
+  achieved: number
+  met: boolean
+  // What the encoder ended up using to get there
+  quality?: number
+  bitrate?: number
+}
+
+// Container overhead and rate control overshoot both eat into the budget
+const VIDEO_BUDGET_MARGIN = 0.94
+const MIN_VIDEO_BITRATE = 32
+// Quality is an integer from 0 to 100, so seven halvings settle it
+const MAX_QUALITY_STEPS = 7
+
+// Bitrates are in kbps; whatever the audio track doesn't take goes to video
+export function targetVideoBitrate(targetBytes: number, duration: number, audioBitrate: number): number {
+  const totalKbps = (targetBytes * 8 * VIDEO_BUDGET_MARGIN) / 1000 / duration
+  return Math.max(MIN_VIDEO_BITRATE, Math.floor(totalKbps - audioBitrate))
+}
+
+// Tries the configured quality first, then binary-searches below it for the
+// highest quality that still fits. When nothing fits the smallest attempt wins.
+export async function searchQuality(
+  maxQuality: number,
+  targetBytes: number,
+  encode: (quality: number) => Promise<Blob>,
+  onStep: (step: number, steps: number) => void
+): Promise<{ blob: Blob; quality: number }> {
+  let step = 0
+  const attempt = async (quality: number) => {
+    onStep(step++, MAX_QUALITY_STEPS + 1)
+    return { blob: await encode(quality), quality }
+  }
+
+  const first = await attempt(maxQuality)
+  if (first.blob.size <= targetBytes) return first
+
+  let best: { blob: Blob; quality: number } | null = null
+  let smallest = first
+  let low = 0
+  let high = maxQuality - 1
+  while (low <= high && step <= MAX_QUALITY_STEPS) {
+    const mid = Math.floor((low + high) / 2)
+    const result = await attempt(mid)
+    if (result.blob.size <= targetBytes) {
+      best = result
+      low = mid + 1
+    } else {
+      if (result.blob.size < smallest.blob.size) smallest = result
+      high = mid - 1
+    }
+  }
+  return best ?? smallest
+}
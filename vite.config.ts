@@ -1,11 +1,21 @@
 import { defineConfig } from 'vite'
 
+// Cross-origin isolation enables SharedArrayBuffer for the multi-threaded FFmpeg core
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+}
+
 export default defineConfig({
   server: {
-    headers: {
-      'Cross-Origin-Opener-Policy': 'same-origin',
-      'Cross-Origin-Embedder-Policy': 'require-corp',
-    },
+    headers: crossOriginIsolationHeaders,
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders,
+  },
+  build: {
+    // The FFmpeg core worker must stay a same-origin file; a data: URL worker loses isolation
+    assetsInlineLimit: (filePath) => (filePath.includes('@ffmpeg') ? false : undefined),
   },
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],